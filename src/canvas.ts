@@ -1,7 +1,42 @@
+import type { CellAttributes, ConnectionDef, LineArms, NodeDef } from './schema.js';
+import { ATTRIBUTE_MARKS, ATTRIBUTE_SGR, WIDE_CONTINUATION } from './constants.js';
+import { graphemes, graphemeWidth } from './text-width.js';
+import { colorSgr } from './color.js';
+
+/** The box or connection a cell was drawn for. */
+export type CellOwner = NodeDef | ConnectionDef;
+
+/** A stretch of one row's text that shares the same attributes. */
+export interface CellRun {
+  text: string;
+  attrs?: CellAttributes;
+  owner?: CellOwner;
+}
+
+/** Key identifying a cell's attributes, whatever order they were set in. */
+function attributesKey(attrs: CellAttributes | undefined): string {
+  return attrs ? JSON.stringify(Object.entries(attrs).sort()) : '';
+}
+
 export class Canvas {
   width: number;
   height: number;
+  // One grapheme per cell; the cell after a wide character holds WIDE_CONTINUATION
   grid: string[][];
+  // Connection line arms per cell (keyed by y * width + x), so crossing lines can merge
+  private arms = new Map<number, LineArms>();
+  // Text attributes per cell, keyed the same way
+  private attributes = new Map<number, CellAttributes>();
+  // Attributes given to every cell drawn from now on, typically colours.
+  // A cell keeps its background when drawn over, since that belongs to
+  // the area (a box's fill) rather than to the character
+  pen: CellAttributes | undefined;
+  // Cells last drawn by writeText (box text, titles and labels) rather than
+  // as part of a border, line or marker
+  private textCells = new Set<number>();
+  // The box or connection being drawn; cells drawn from now on belong to it
+  owner: CellOwner | undefined;
+  private owners = new Map<number, CellOwner>();
 
   constructor(width: number, height: number) {
     this.width = width;
@@ -13,12 +48,66 @@ export class Canvas {
     return x >= 0 && x < this.width && y >= 0 && y < this.height;
   }
 
+  /** Blank whatever is left of a wide character when one of its two cells is overwritten. */
+  private breakWide(x: number, y: number): void {
+    const row = this.grid[y];
+    if (row[x] === WIDE_CONTINUATION) {
+      if (x > 0) row[x - 1] = ' ';
+    } else if (row[x + 1] === WIDE_CONTINUATION) {
+      row[x + 1] = ' ';
+    }
+  }
+
+  /**
+   * Replace a freshly drawn cell's attributes with the pen, keeping its
+   * background, and hand the cell to the current owner.
+   */
+  private paint(key: number): void {
+    const bg = this.attributes.get(key)?.bg;
+    const attrs = { ...(bg != null ? { bg } : {}), ...this.pen };
+    if (Object.keys(attrs).length > 0) this.attributes.set(key, attrs);
+    else this.attributes.delete(key);
+    if (this.owner) this.owners.set(key, this.owner);
+    else this.owners.delete(key);
+  }
+
+  /** Put one grapheme in a cell. A wide one also covers the cell to its right. */
   set(x: number, y: number, ch: string): void {
     if (this.inBounds(x, y)) {
+      this.breakWide(x, y);
       this.grid[y][x] = ch;
+      this.arms.delete(y * this.width + x);
+      this.textCells.delete(y * this.width + x);
+      this.paint(y * this.width + x);
+      if (graphemeWidth(ch) === 2 && this.inBounds(x + 1, y)) {
+        this.breakWide(x + 1, y);
+        this.grid[y][x + 1] = WIDE_CONTINUATION;
+        this.arms.delete(y * this.width + x + 1);
+        this.textCells.delete(y * this.width + x + 1);
+        this.paint(y * this.width + x + 1);
+      }
     }
   }
 
+  /** Set a cell that is part of a connection line, recording its arms. */
+  setLine(x: number, y: number, ch: string, arms: LineArms): void {
+    if (this.inBounds(x, y)) {
+      this.breakWide(x, y);
+      this.grid[y][x] = ch;
+      this.arms.set(y * this.width + x, arms);
+      this.textCells.delete(y * this.width + x);
+      this.paint(y * this.width + x);
+    }
+  }
+
+  /** Arms of the connection line in a cell, or undefined if no line was drawn there. */
+  getArms(x: number, y: number): LineArms | undefined {
+    if (this.inBounds(x, y)) {
+      return this.arms.get(y * this.width + x);
+    }
+    return undefined;
+  }
+
   get(x: number, y: number): string {
     if (this.inBounds(x, y)) {
       return this.grid[y][x];
@@ -26,22 +115,200 @@ export class Canvas {
     return ' ';
   }
 
+  /** Write text left to right, one grapheme per cell (two for wide ones). */
   writeText(x: number, y: number, text: string): void {
-    for (let i = 0; i < text.length; i++) {
-      this.set(x + i, y, text[i]);
+    let col = x;
+    for (const g of graphemes(text)) {
+      const width = graphemeWidth(g);
+      if (width === 0) continue;
+      this.set(col, y, g);
+      if (this.inBounds(col, y)) this.textCells.add(y * this.width + col);
+      col += width;
+    }
+  }
+
+  /** True if a cell was last drawn by `writeText`. */
+  isText(x: number, y: number): boolean {
+    return this.textCells.has(y * this.width + x) && this.inBounds(x, y);
+  }
+
+  /** Add text attributes to a cell, on top of any it already has. */
+  setAttributes(x: number, y: number, attrs: CellAttributes): void {
+    if (this.inBounds(x, y)) {
+      const key = y * this.width + x;
+      this.attributes.set(key, { ...this.attributes.get(key), ...attrs });
+    }
+  }
+
+  /** Text attributes of a cell, or undefined if it has none. */
+  getAttributes(x: number, y: number): CellAttributes | undefined {
+    if (this.inBounds(x, y)) {
+      return this.attributes.get(y * this.width + x);
+    }
+    return undefined;
+  }
+
+  /** Hand a cell to the current owner without drawing in it, like a box's blank interior. */
+  claim(x: number, y: number): void {
+    if (this.inBounds(x, y) && this.owner) {
+      this.owners.set(y * this.width + x, this.owner);
+    }
+  }
+
+  /** The box or connection a cell was drawn for, if any. */
+  getOwner(x: number, y: number): CellOwner | undefined {
+    if (this.inBounds(x, y)) {
+      return this.owners.get(y * this.width + x);
     }
+    return undefined;
   }
 
+  /**
+   * Runs of cells in row `y` from column `from` up to its last non-blank cell,
+   * split wherever the attributes change — and, with `byOwner`, wherever the
+   * owner does. Continuation cells are skipped, so each run's text is exactly
+   * what a reader sees.
+   */
+  runs(y: number, from = 0, { byOwner = false } = {}): CellRun[] {
+    const row = this.grid[y];
+    let end = row.length;
+    while (end > from && row[end - 1] === ' ') end--;
+    const runs: CellRun[] = [];
+    let key = '';
+    let runOwner: CellOwner | undefined;
+    for (let x = from; x < end; x++) {
+      if (row[x] === WIDE_CONTINUATION) continue;
+      const attrs = this.attributes.get(y * this.width + x);
+      const attrKey = attributesKey(attrs);
+      const owner = byOwner ? this.owners.get(y * this.width + x) : undefined;
+      if (runs.length === 0 || attrKey !== key || owner !== runOwner) {
+        runs.push({ text: '', ...(attrs ? { attrs } : {}), ...(owner ? { owner } : {}) });
+        key = attrKey;
+        runOwner = owner;
+      }
+      runs[runs.length - 1].text += row[x];
+    }
+    return runs;
+  }
+
+  /**
+   * Runs of written text (see `isText`) in row `y`, each with the column it
+   * starts at and its owner, split at attribute or owner changes and at
+   * anything that isn't text. Spaces at either end of a run are dropped.
+   */
+  textRuns(y: number): Array<CellRun & { x: number }> {
+    const runs: Array<CellRun & { x: number }> = [];
+    let current: (CellRun & { x: number }) | null = null;
+    let key = '';
+    let runOwner: CellOwner | undefined;
+    const finish = () => {
+      if (!current) return;
+      const lead = current.text.length - current.text.trimStart().length;
+      const text = current.text.trim();
+      if (text) runs.push({ ...current, x: current.x + lead, text });
+      current = null;
+    };
+    for (let x = 0; x < this.width; x++) {
+      if (this.grid[y][x] === WIDE_CONTINUATION) continue;
+      if (!this.isText(x, y)) {
+        finish();
+        continue;
+      }
+      const attrs = this.attributes.get(y * this.width + x);
+      const owner = this.owners.get(y * this.width + x);
+      if (current && (attributesKey(attrs) !== key || owner !== runOwner)) finish();
+      if (!current) {
+        current = { x, text: '', ...(attrs ? { attrs } : {}), ...(owner ? { owner } : {}) };
+        key = attributesKey(attrs);
+        runOwner = owner;
+      }
+      current.text += this.grid[y][x];
+    }
+    finish();
+    return runs;
+  }
+
+  /**
+   * Swap every drawn glyph that isn't written text (see `isText`) for what
+   * `map` gives, keeping the cell's attributes and owner — used to draw a
+   * diagram in a different character set.
+   */
+  transliterate(map: (glyph: string, x: number, y: number) => string): void {
+    this.grid.forEach((row, y) => row.forEach((ch, x) => {
+      if (ch !== ' ' && ch !== WIDE_CONTINUATION && !this.isText(x, y)) row[x] = map(ch, x, y);
+    }));
+  }
+
+  /** Columns of blank space common to the left of every non-empty row. */
+  indent(): number {
+    let min = Infinity;
+    for (const row of this.grid) {
+      const first = row.findIndex(ch => ch !== ' ');
+      if (first >= 0) min = Math.min(min, first);
+    }
+    return min === Infinity ? 0 : min;
+  }
+
+  /** Columns from the indent to the rightmost non-blank cell of any row. */
+  contentWidth(): number {
+    const indent = this.indent();
+    return Math.max(0, ...this.grid.map(row => {
+      let end = row.length;
+      while (end > 0 && row[end - 1] === ' ') end--;
+      return end - indent;
+    }));
+  }
+
+  /** Plain text, with strike and underline as combining marks. */
   toString(): string {
-    const lines = this.grid.map(row => row.join('').replace(/\s+$/, ''));
-    const minIndent = lines.reduce((min, line) => {
-      if (line.length === 0) return min;
-      const leading = line.match(/^ */)![0].length;
-      return Math.min(min, leading);
-    }, Infinity);
-    if (minIndent > 0 && minIndent < Infinity) {
-      return lines.map(line => line.slice(minIndent)).join('\n');
-    }
-    return lines.join('\n');
+    const indent = this.indent();
+    return this.grid.map((_, y) => this.runs(y, indent).map(run => {
+      const marks = Object.entries(ATTRIBUTE_MARKS)
+        .filter(([attr]) => run.attrs?.[attr as keyof CellAttributes])
+        .map(([, mark]) => mark)
+        .join('');
+      return marks ? graphemes(run.text).map(g => g + marks).join('') : run.text;
+    }).join('')).join('\n');
+  }
+
+  /**
+   * Text for a terminal, with attributes and colours as SGR escape
+   * sequences — one per run of identically styled cells.
+   */
+  toAnsi(): string {
+    const indent = this.indent();
+    return this.grid.map((_, y) => this.runs(y, indent).map(run => {
+      const codes: Array<number | string> = Object.entries(ATTRIBUTE_SGR)
+        .filter(([attr]) => run.attrs?.[attr as keyof CellAttributes])
+        .map(([, code]) => code);
+      if (run.attrs?.fg != null) codes.push(colorSgr(run.attrs.fg, 'fg'));
+      if (run.attrs?.bg != null) codes.push(colorSgr(run.attrs.bg, 'bg'));
+      return codes.length > 0 ? `\x1b[${codes.join(';')}m${run.text}\x1b[0m` : run.text;
+    }).join('')).join('\n');
+  }
+
+  /**
+   * Read plain text back into a canvas, turning the combining marks written
+   * by `toString` into strike and underline attributes.
+   */
+  static fromText(text: string): Canvas {
+    const lines = text.split('\n');
+    const marks = Object.entries(ATTRIBUTE_MARKS) as Array<[keyof CellAttributes, string]>;
+    const strip = (g: string) => marks.reduce((out, [, mark]) => out.split(mark).join(''), g);
+    const width = Math.max(0, ...lines.map(line => graphemes(line).reduce((w, g) => w + graphemeWidth(strip(g)), 0)));
+    const canvas = new Canvas(width, lines.length);
+    lines.forEach((line, y) => {
+      let x = 0;
+      for (const g of graphemes(line)) {
+        const ch = strip(g);
+        const cellWidth = graphemeWidth(ch);
+        if (cellWidth === 0) continue;
+        canvas.set(x, y, ch);
+        const attrs = Object.fromEntries(marks.filter(([, mark]) => g.includes(mark)).map(([attr]) => [attr, true]));
+        if (Object.keys(attrs).length > 0) canvas.setAttributes(x, y, attrs);
+        x += cellWidth;
+      }
+    });
+    return canvas;
   }
 }
@@ -0,0 +1,29 @@
+import type { LineArms } from './schema.js';
+import { ASCII_GLYPHS, HOP_CHAR } from './constants.js';
+import { glyphArms, junctionGlyph } from './junctions.js';
+
+/**
+ * 7-bit ASCII stand-in for a glyph the renderer draws. Box-drawing glyphs
+ * map by their arms: corners, tees and crosses to `+`, horizontals to `-`
+ * (`=` when double) and verticals to `|`. Anything else is returned as is.
+ */
+export function asciiGlyph(glyph: string): string {
+  const mapped = ASCII_GLYPHS[glyph];
+  if (mapped) return mapped;
+  const arms = glyphArms(glyph);
+  if (!arms) return glyph;
+  const vertical = arms.up ?? arms.down;
+  const horizontal = arms.left ?? arms.right;
+  if (vertical && horizontal) return '+';
+  if (horizontal) return horizontal === 'double' ? '=' : '-';
+  return '|';
+}
+
+/**
+ * `asciiGlyph` for a cell of a drawn canvas, given the connection line arms
+ * it has. A hop is one line crossing another, so it becomes `+` like any
+ * other crossing rather than a stray `)`.
+ */
+export function asciiCell(glyph: string, arms?: LineArms): string {
+  return asciiGlyph(arms && glyph === HOP_CHAR ? junctionGlyph(arms) : glyph);
+}
@@ -1,8 +1,15 @@
-import { readFileSync } from 'node:fs';
-import { resolve, extname } from 'node:path';
-import yaml from 'js-yaml';
-import { render, renderSvg } from './render.js';
-import type { NodeDef } from './schema.js';
+import { readFileSync, watchFile } from 'node:fs';
+import { resolve, extname, basename } from 'node:path';
+import { render, renderAnsi, renderCanvas, renderSvg } from './render.js';
+import { renderVectorSvg } from './vector-svg.js';
+import { renderHtml } from './html.js';
+import { diagramJsonSchema } from './json-schema.js';
+import type { Diagnostic, NodeDef, RenderOptions } from './schema.js';
+import { ThemeSchema } from './schema.js';
+import { registerTheme, resolveTheme } from './themes.js';
+import { schemaDiagnostics, validate } from './validate.js';
+import type { SourceNode, SourcePosition } from './source-map.js';
+import { SourceSyntaxError, codeFrame, locate, parseJsonSource, parseYamlSource } from './source-map.js';
 import { parseMermaid } from './mermaid/index.js';
 
 function printUsage(): void {
@@ -14,7 +21,19 @@ Usage:
   box-of-rain <diagram.mmd|diagram.mermaid>        # Mermaid input
   box-of-rain --mermaid <file>                      # Force mermaid parsing
   box-of-rain --svg <diagram.json|diagram.yaml>    # SVG output
+  box-of-rain --svg=vector <diagram.json>          # SVG with real shapes
+  box-of-rain --html <diagram.json>                # Interactive HTML page
+  box-of-rain --html=fragment <diagram.json>       # HTML to embed in a page
+  box-of-rain --color=auto|always|never <file>     # Terminal colours (default auto)
+  box-of-rain --ascii <file>                       # Plain ASCII: +-| > < v ^ #
+  box-of-rain --theme=<theme.json> <file>          # Glyphs and colours from a theme file
+  box-of-rain --watch <file>                       # Redraw whenever the file changes
   box-of-rain --example
+  box-of-rain lint <files...>                      # Check diagrams without rendering
+  box-of-rain lint --format json <files...>        # ... as a JSON array of diagnostics
+  box-of-rain lint --theme=<theme.json> <files...> # ... accepting the theme's border styles
+  box-of-rain schema                               # JSON Schema for diagram files
+  box-of-rain schema --theme=<theme.json>          # ... accepting the theme's border styles
 
 Stdin:
   cat diagram.json | box-of-rain                   # JSON from stdin
@@ -44,9 +63,45 @@ children can be:
 
 You can also specify explicit positions: x, y, width, height on each box,
 and width/height on the top-level diagram. If omitted, auto-layout computes them.
+
+Boxes and connections take color, borderColor, textColor and background:
+a colour name ("red", "bright-blue"), a 256-colour number or "#rrggbb".
+With --color=auto they are shown when writing to a terminal and NO_COLOR
+is unset.
 `);
 }
 
+const COLOR_MODES = ['auto', 'always', 'never'];
+
+/**
+ * Theme named by `--theme`: a path to a theme JSON file, which is loaded and
+ * registered under its file name, or the name of a registered theme.
+ */
+function loadTheme(args: string[]): string | undefined {
+  const flag = args.filter(a => a.startsWith('--theme=')).pop();
+  if (flag == null) return undefined;
+  const value = flag.slice('--theme='.length);
+  if (extname(value).toLowerCase() !== '.json') return value;
+  const result = ThemeSchema.safeParse(JSON.parse(readFileSync(resolve(value), 'utf-8')));
+  if (!result.success) {
+    throw new Error(`Invalid theme ${value}: ${result.error.issues.map(i => `${i.path.join('.') || '(root)'} ${i.message}`).join('; ')}`);
+  }
+  const name = basename(value, extname(value));
+  registerTheme(name, result.data);
+  return name;
+}
+
+/** Whether to write terminal colours, per the `--color` flag. A bare `--color` means always. */
+function useColor(args: string[]): boolean {
+  const flag = args.filter(a => a === '--color' || a.startsWith('--color=')).pop();
+  const mode = flag == null ? 'auto' : flag === '--color' ? 'always' : flag.slice('--color='.length);
+  if (!COLOR_MODES.includes(mode)) {
+    throw new Error(`Invalid --color value "${mode}" (expected ${COLOR_MODES.join(', ')})`);
+  }
+  if (mode === 'auto') return Boolean(process.stdout.isTTY) && !process.env.NO_COLOR;
+  return mode === 'always';
+}
+
 function runExample(): void {
   const diagram: NodeDef = {
     children: [
@@ -82,33 +137,59 @@ function runExample(): void {
   console.log(render(diagram));
 }
 
-function migrate(input: Record<string, unknown>): NodeDef {
+/** A key `migrate` renamed: its path in the migrated diagram, and what and where it was written. */
+interface LegacyKey {
+  path: Diagnostic['path'];
+  from: string;
+  to: string;
+  at?: SourcePosition;
+}
+
+/**
+ * Rename a legacy key in a source map too, so problems found in the
+ * migrated diagram still point at what was written, and note the rename
+ * in `legacy`.
+ */
+function renameEntry(map: SourceNode | undefined, from: string, to: string, path: Diagnostic['path'], legacy: LegacyKey[]): void {
+  const node = map?.entries?.get(from);
+  const key = map?.keys?.get(from);
+  if (node) map!.entries!.set(to, node);
+  if (key) map!.keys!.set(to, key);
+  legacy.push({ path: [...path, to], from, to, at: key });
+}
+
+function migrate(input: unknown, map?: SourceNode, legacy: LegacyKey[] = []): NodeDef {
+  if (typeof input !== 'object' || input === null) return input as NodeDef;
   // Support old format: { boxes: [...], connections: [...] }
   if ('boxes' in input && !('children' in input)) {
     const { boxes, ...rest } = input;
-    return { ...rest, children: boxes } as NodeDef;
+    renameEntry(map, 'boxes', 'children', [], legacy);
+    return migrateNode({ ...rest, children: boxes } as NodeDef, map, legacy, []);
   }
   // Support old format: { content: [...] } on nodes
-  return migrateNode(input as NodeDef);
+  return migrateNode(input as NodeDef, map, legacy, []);
 }
 
-function migrateNode(node: NodeDef): NodeDef {
+function migrateNode(node: NodeDef, map: SourceNode | undefined, legacy: LegacyKey[], path: Diagnostic['path']): NodeDef {
   const result = { ...node };
   // Migrate content → children (if children not already set)
   if ('content' in (result as Record<string, unknown>) && result.children == null) {
     (result as NodeDef).children = (result as Record<string, unknown>).content as string | string[];
     delete (result as Record<string, unknown>).content;
+    renameEntry(map, 'content', 'children', path, legacy);
   }
   // Migrate boxes → children in nested nodes
   if ('boxes' in (result as Record<string, unknown>) && result.children == null) {
     (result as NodeDef).children = (result as Record<string, unknown>).boxes as NodeDef[];
     delete (result as Record<string, unknown>).boxes;
+    renameEntry(map, 'boxes', 'children', path, legacy);
   }
   // Recursively migrate child boxes
   if (Array.isArray(result.children)) {
-    result.children = result.children.map(child => {
+    const childMaps = map?.entries?.get('children')?.entries;
+    result.children = result.children.map((child, i) => {
       if (typeof child === 'object' && child !== null) {
-        return migrateNode(child);
+        return migrateNode(child, childMaps?.get(i), legacy, [...path, 'children', i]);
       }
       return child;
     });
@@ -116,6 +197,198 @@ function migrateNode(node: NodeDef): NodeDef {
   return result;
 }
 
+/** The innermost legacy key a problem is under, if any. */
+function legacyKeyOf(d: Diagnostic, legacy: LegacyKey[]): LegacyKey | undefined {
+  return legacy
+    .filter(key => key.path.every((part, i) => d.path[i] === part))
+    .reduce<LegacyKey | undefined>((inner, key) => (inner && inner.path.length > key.path.length ? inner : key), undefined);
+}
+
+/**
+ * A problem's message naming a legacy key as it was written, when the
+ * problem is with the key's value or an item in it.
+ */
+function sourceMessage(d: Diagnostic, legacy: LegacyKey[]): string {
+  const key = legacyKeyOf(d, legacy);
+  const rest = key && d.path.slice(key.path.length);
+  if (!key || rest!.length > 1 || (rest!.length === 1 && typeof rest![0] !== 'number')) return d.message;
+  return d.message.startsWith(key.to) ? key.from + d.message.slice(key.to.length) : d.message;
+}
+
+const deprecation = (key: LegacyKey) => `\`${key.from}\` is deprecated, use \`${key.to}\``;
+
+type InputFormat = 'json' | 'yaml' | 'mermaid';
+
+/** How to read an input, from its file extension unless a flag says otherwise. */
+function inputFormat(ext: string, args: string[] = []): InputFormat {
+  if (args.includes('--mermaid') || ext === '.mmd' || ext === '.mermaid') return 'mermaid';
+  if (args.includes('--yaml') || ext === '.yaml' || ext === '.yml') return 'yaml';
+  return 'json';
+}
+
+/**
+ * Read a diagram, migrating legacy shapes. JSON and YAML come with a source
+ * map from paths in the diagram back to where they were written.
+ */
+function loadDiagram(raw: string, format: InputFormat): { diagram: NodeDef; map?: SourceNode; legacy: LegacyKey[] } {
+  if (format === 'mermaid') return { diagram: parseMermaid(raw), legacy: [] };
+  const { value, map } = format === 'yaml' ? parseYamlSource(raw) : parseJsonSource(raw);
+  const legacy: LegacyKey[] = [];
+  return { diagram: migrate(value, map, legacy), map, legacy };
+}
+
+/** A problem in an input file: `file:line:col: error: message`, then the code there. */
+function formatAt(file: string, raw: string, at: SourcePosition | undefined, message: string, severity: Diagnostic['severity'] = 'error'): string {
+  if (!at) return `${file}: ${severity}: ${message}`;
+  return `${file}:${at.line}:${at.column}: ${severity}: ${message}\n${codeFrame(raw, at)}`;
+}
+
+// An error already saying where in the input it is, printed as is
+class InputError extends Error {}
+
+/** How to show an error from rendering an input. */
+function errorText(err: unknown): string {
+  return err instanceof InputError ? err.message : `Error: ${(err as Error).message}`;
+}
+
+/**
+ * Render an input as the flags ask. An input that doesn't parse or match
+ * the schema throws an `InputError` pointing at each problem in `raw`.
+ */
+function renderInput(raw: string, ext: string, file: string, args: string[]): string {
+  let loaded: ReturnType<typeof loadDiagram>;
+  try {
+    loaded = loadDiagram(raw, inputFormat(ext, args));
+  } catch (err) {
+    if (err instanceof SourceSyntaxError) throw new InputError(formatAt(file, raw, err, err.message));
+    throw err;
+  }
+  const { diagram, map, legacy } = loaded;
+  // Loaded first, since a theme can define border styles
+  const theme = loadTheme(args);
+  const problems = schemaDiagnostics(diagram, resolveTheme(theme));
+  if (problems.length > 0) {
+    const errors = problems.map(d => formatAt(file, raw, map && locate(map, d.path), sourceMessage(d, legacy)));
+    // Each legacy key a problem is under gets a note pointing at it
+    const keys = new Set(problems.map(d => legacyKeyOf(d, legacy)).filter(key => key != null));
+    const notes = [...keys].map(key => formatAt(file, raw, key.at, deprecation(key), 'warning'));
+    throw new InputError([...errors, ...notes].join('\n\n'));
+  }
+
+  const renderOptions: RenderOptions = { ...(args.includes('--ascii') && { charset: 'ascii' }), ...(theme && { theme }) };
+  if (args.includes('--html') || args.includes('--html=fragment')) {
+    return renderHtml(diagram, { fragment: args.includes('--html=fragment') }, renderOptions);
+  }
+  if (args.includes('--svg=vector')) return renderVectorSvg(diagram, undefined, renderOptions);
+  if (args.includes('--svg')) return renderSvg(renderCanvas(diagram, renderOptions), resolveTheme(theme)?.svg);
+  return useColor(args) ? renderAnsi(diagram, renderOptions) : render(diagram, renderOptions);
+}
+
+// Changes to watched files are drawn once they've stopped for this long
+const WATCH_DEBOUNCE_MS = 100;
+// How often watched files are checked. Polling keeps seeing a file that an
+// editor saves by writing a new one and renaming it over the old
+const WATCH_INTERVAL_MS = 100;
+
+/**
+ * `--watch`: render a file, then clear the terminal and render it again
+ * whenever it or its `--theme` file changes. A problem is shown in place of
+ * the diagram rather than exiting, until the next change fixes it.
+ */
+function watch(file: string, args: string[]): void {
+  const themeFile = args.filter(a => a.startsWith('--theme=')).pop()?.slice('--theme='.length);
+  const files = [file, ...(themeFile && extname(themeFile).toLowerCase() === '.json' ? [themeFile] : [])];
+  const clear = process.stdout.isTTY ? '\x1b[2J\x1b[3J\x1b[H' : '';
+
+  const draw = () => {
+    let output: string;
+    try {
+      output = renderInput(readFileSync(resolve(file), 'utf-8'), extname(file).toLowerCase(), file, args);
+    } catch (err) {
+      output = errorText(err);
+    }
+    process.stdout.write(`${clear}${output.trimEnd()}\n\nWatching ${files.join(', ')} (Ctrl-C to stop)\n`);
+  };
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  for (const watched of files) {
+    watchFile(resolve(watched), { interval: WATCH_INTERVAL_MS }, (current, previous) => {
+      if (current.mtimeMs === previous.mtimeMs) return;
+      clearTimeout(timer);
+      timer = setTimeout(draw, WATCH_DEBOUNCE_MS);
+    });
+  }
+  draw();
+}
+
+/** A diagnostic from `lint`, with its file and, when known, the line and column it points at. */
+interface LintDiagnostic extends Diagnostic {
+  file: string;
+  line?: number;
+  column?: number;
+}
+
+const LINT_FORMATS = ['text', 'json'];
+
+/** Read and check one diagram file without rendering it, with `theme`'s border styles allowed. */
+function lintFile(file: string, theme?: string): LintDiagnostic[] {
+  let raw: string;
+  try {
+    raw = readFileSync(resolve(file), 'utf-8');
+  } catch (err) {
+    return [{ file, code: 'unreadable-file', severity: 'error', path: [], message: (err as Error).message }];
+  }
+  let loaded: ReturnType<typeof loadDiagram>;
+  try {
+    loaded = loadDiagram(raw, inputFormat(extname(file).toLowerCase()));
+  } catch (err) {
+    const at = err instanceof SourceSyntaxError ? { line: err.line, column: err.column } : undefined;
+    return [{ file, ...at, code: 'invalid-syntax', severity: 'error', path: [], message: (err as Error).message }];
+  }
+  // Mermaid is converted rather than parsed, so has no map back to its source
+  const { diagram, map, legacy } = loaded;
+  const deprecated = legacy.map((key): LintDiagnostic => ({
+    file, ...key.at, code: 'deprecated-key', severity: 'warning', path: key.path, message: deprecation(key),
+  }));
+  const problems = validate(diagram, theme ? { theme } : undefined).map((d): LintDiagnostic => ({
+    file, ...(map && locate(map, d.path)), ...d, message: sourceMessage(d, legacy),
+  }));
+  return [...deprecated, ...problems];
+}
+
+/**
+ * `box-of-rain lint`: check diagram files without rendering them, printing
+ * each problem as `file:line:col: severity: message [code]`, or all of them
+ * as a JSON array with `--format json`. Returns the exit code, 1 if any
+ * file has an error.
+ */
+function lint(args: string[]): number {
+  let format = 'text';
+  const files: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--format') format = args[++i] ?? '';
+    else if (args[i].startsWith('--format=')) format = args[i].slice('--format='.length);
+    else if (!args[i].startsWith('--theme=')) files.push(args[i]);
+  }
+  if (!LINT_FORMATS.includes(format)) {
+    throw new Error(`Invalid --format value "${format}" (expected ${LINT_FORMATS.join(', ')})`);
+  }
+  if (files.length === 0) throw new Error('lint needs at least one file');
+
+  // Loaded as for rendering, since a theme can define border styles
+  const theme = loadTheme(args);
+  const diagnostics = files.flatMap(file => lintFile(file, theme));
+  if (format === 'json') {
+    console.log(JSON.stringify(diagnostics, null, 2));
+  } else {
+    for (const d of diagnostics) {
+      const where = [d.file, d.line, d.column].filter(part => part != null).join(':');
+      console.log(`${where}: ${d.severity}: ${d.message} [${d.code}]`);
+    }
+  }
+  return diagnostics.some(d => d.severity === 'error') ? 1 : 0;
+}
+
 function main(): void {
   const args = process.argv.slice(2);
 
@@ -130,16 +403,42 @@ function main(): void {
     process.exit(0);
   }
 
+  if (args[0] === 'lint') {
+    try {
+      process.exit(lint(args.slice(1)));
+    } catch (err) {
+      console.error(`Error: ${(err as Error).message}`);
+      process.exit(1);
+    }
+  }
+
+  if (args[0] === 'schema') {
+    try {
+      loadTheme(args);
+      console.log(JSON.stringify(diagramJsonSchema(), null, 2));
+      process.exit(0);
+    } catch (err) {
+      console.error(`Error: ${(err as Error).message}`);
+      process.exit(1);
+    }
+  }
+
   if (args.includes('--example')) {
     runExample();
     process.exit(0);
   }
 
-  const svg = args.includes('--svg');
-  const mermaidFlag = args.includes('--mermaid');
-  const yamlFlag = args.includes('--yaml');
   const fileArgs = args.filter(a => !a.startsWith('--'));
 
+  if (args.includes('--watch')) {
+    if (fileArgs.length === 0) {
+      console.error('Error: --watch needs a file to watch');
+      process.exit(1);
+    }
+    watch(fileArgs[0], args);
+    return;
+  }
+
   let raw: string;
   let ext: string;
 
@@ -156,21 +455,9 @@ function main(): void {
   }
 
   try {
-    const isMermaid = mermaidFlag || ext === '.mmd' || ext === '.mermaid';
-    const isYaml = yamlFlag || ext === '.yaml' || ext === '.yml';
-    let diagram: NodeDef;
-    if (isMermaid) {
-      diagram = parseMermaid(raw);
-    } else {
-      const parsed = isYaml
-        ? yaml.load(raw)
-        : JSON.parse(raw);
-      diagram = migrate(parsed as Record<string, unknown>);
-    }
-    const text = render(diagram);
-    console.log(svg ? renderSvg(text) : text);
+    console.log(renderInput(raw, ext, fileArgs[0] ?? '<stdin>', args));
   } catch (err) {
-    console.error(`Error: ${(err as Error).message}`);
+    console.error(errorText(err));
     process.exit(1);
   }
 }
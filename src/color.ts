@@ -0,0 +1,92 @@
+import type { CellAttributes, Color } from './schema.js';
+
+// The 16 standard terminal colours, by SGR palette index
+const NAMED_COLORS: Record<string, number> = {
+  black: 0,
+  red: 1,
+  green: 2,
+  yellow: 3,
+  blue: 4,
+  magenta: 5,
+  cyan: 6,
+  white: 7,
+  gray: 8,
+  grey: 8,
+  'bright-black': 8,
+  'bright-red': 9,
+  'bright-green': 10,
+  'bright-yellow': 11,
+  'bright-blue': 12,
+  'bright-magenta': 13,
+  'bright-cyan': 14,
+  'bright-white': 15,
+};
+
+/** The colour names `isColor` accepts, in lower case. */
+export const COLOR_NAMES = Object.keys(NAMED_COLORS);
+
+// xterm's default RGB values for the 16 standard colours
+const STANDARD_RGB = [
+  '#000000', '#cd0000', '#00cd00', '#cdcd00', '#0000ee', '#cd00cd', '#00cdcd', '#e5e5e5',
+  '#7f7f7f', '#ff0000', '#00ff00', '#ffff00', '#5c5cff', '#ff00ff', '#00ffff', '#ffffff',
+];
+
+// Channel levels of the 6×6×6 colour cube in the 256-colour palette
+const CUBE_LEVELS = [0, 95, 135, 175, 215, 255];
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+/** True if `value` is a colour name, a 256-colour palette index or a `#rgb`/`#rrggbb` hex string. */
+export function isColor(value: unknown): value is Color {
+  if (typeof value === 'number') return Number.isInteger(value) && value >= 0 && value <= 255;
+  if (typeof value !== 'string') return false;
+  return value.toLowerCase() in NAMED_COLORS || HEX_COLOR.test(value);
+}
+
+/** Red, green and blue components of a hex colour. */
+export function hexToRgb(hex: string): [number, number, number] {
+  const digits = hex.slice(1);
+  const full = digits.length === 3 ? digits.split('').map(d => d + d).join('') : digits;
+  return [0, 2, 4].map(i => parseInt(full.slice(i, i + 2), 16)) as [number, number, number];
+}
+
+/**
+ * CSS hex for a colour, for outputs other than a terminal. Named and
+ * palette colours use xterm's default palette.
+ */
+export function cssColor(color: Color): string {
+  const hex = (...channels: number[]) => '#' + channels.map(c => c.toString(16).padStart(2, '0')).join('');
+  if (typeof color === 'string') {
+    const named = NAMED_COLORS[color.toLowerCase()];
+    return named != null ? STANDARD_RGB[named] : color.toLowerCase();
+  }
+  if (color < 16) return STANDARD_RGB[color];
+  if (color >= 232) {
+    const level = 8 + (color - 232) * 10;
+    return hex(level, level, level);
+  }
+  const index = color - 16;
+  return hex(CUBE_LEVELS[Math.floor(index / 36)], CUBE_LEVELS[Math.floor(index / 6) % 6], CUBE_LEVELS[index % 6]);
+}
+
+/**
+ * SGR parameters selecting `color` as the foreground or background. Named
+ * colours use the basic codes (30–37, 90–97 and the background
+ * equivalents), palette indices the 256-colour form and hex the truecolor form.
+ */
+export function colorSgr(color: Color, layer: 'fg' | 'bg'): string {
+  if (typeof color === 'number') return `${layer === 'fg' ? 38 : 48};5;${color}`;
+  const named = NAMED_COLORS[color.toLowerCase()];
+  if (named != null) {
+    const base = layer === 'fg' ? 30 : 40;
+    return String(named < 8 ? base + named : base + 60 + named - 8);
+  }
+  const [r, g, b] = hexToRgb(color);
+  return `${layer === 'fg' ? 38 : 48};2;${r};${g};${b}`;
+}
+
+/** Canvas pen drawing in `fg` on `bg`, or undefined when neither is given. */
+export function colorPen(fg?: Color, bg?: Color): CellAttributes | undefined {
+  if (fg == null && bg == null) return undefined;
+  return { ...(fg != null ? { fg } : {}), ...(bg != null ? { bg } : {}) };
+}
@@ -1,4 +1,4 @@
-import type { BorderChars, BorderStyle, Side, SvgOptions, LayoutOptions } from './schema.js';
+import type { BorderChars, BorderStyle, CellAttributes, HtmlOptions, LineChars, LineStyle, MarkerKind, Side, SvgOptions, LayoutOptions } from './schema.js';
 
 export const BORDERS: Record<BorderStyle, BorderChars> = {
   single: { tl: '┌', tr: '┐', bl: '└', br: '┘', h: '─', v: '│' },
@@ -8,8 +8,62 @@ export const BORDERS: Record<BorderStyle, BorderChars> = {
   dashed: { tl: '┌', tr: '┐', bl: '└', br: '┘', h: '┄', v: '┆' },
 };
 
+// Connection line glyphs — dashed/dotted lines keep light corners, since
+// Unicode has no dashed corner glyphs. Junctions come from `GLYPH_ARMS`
+export const LINE_STYLES: Record<LineStyle, LineChars> = {
+  solid: { tl: '┌', tr: '┐', bl: '└', br: '┘', h: '─', v: '│' },
+  dashed: { tl: '┌', tr: '┐', bl: '└', br: '┘', h: '┄', v: '┆' },
+  dotted: { tl: '┌', tr: '┐', bl: '└', br: '┘', h: '┈', v: '┊' },
+  double: { tl: '╔', tr: '╗', bl: '╚', br: '╝', h: '═', v: '║' },
+  bold: { tl: '┏', tr: '┓', bl: '┗', br: '┛', h: '━', v: '┃' },
+};
+
 export const SHADOW_CHAR = '░';
 
+// Grid cell covered by the right half of a wide character in the cell before it
+export const WIDE_CONTINUATION = '';
+
+// Plain text has no styling, so strike and underline are drawn with combining
+// marks after the cell's character; the other attributes are dropped
+export const ATTRIBUTE_MARKS: Partial<Record<keyof CellAttributes, string>> = {
+  strike: '\u0336',
+  underline: '\u0332',
+};
+
+// SGR parameters for terminal output; colours are encoded by colorSgr
+export const ATTRIBUTE_SGR: Record<Exclude<keyof CellAttributes, 'fg' | 'bg'>, number> = {
+  bold: 1,
+  dim: 2,
+  italic: 3,
+  underline: 4,
+  strike: 9,
+};
+
+// ASCII stand-ins for glyphs the box-drawing rules in `asciiGlyph` don't
+// cover: rounded corners, dashed and dotted lines, arrow heads, markers
+// and shadows
+export const ASCII_GLYPHS: Record<string, string> = {
+  '╭': '+',
+  '╮': '+',
+  '╰': '+',
+  '╯': '+',
+  '┄': '-',
+  '┈': '.',
+  '┆': ':',
+  '┊': ':',
+  '▶': '>',
+  '◀': '<',
+  '▼': 'v',
+  '▲': '^',
+  '×': 'x',
+  '○': 'o',
+  '◆': '*',
+  '░': '#',
+};
+
+// Where two unrelated connections cross at right angles, the horizontal line hops over
+export const HOP_CHAR = ')';
+
 // Arrow head points INTO the target box — entering from the left side means arrow points right (▶)
 export const ARROW_HEADS: Record<Side, string> = {
   left: '▶',
@@ -18,6 +72,13 @@ export const ARROW_HEADS: Record<Side, string> = {
   bottom: '▲',
 };
 
+// Non-directional end markers; 'triangle' uses ARROW_HEADS for the entry side
+export const MARKERS: Record<Exclude<MarkerKind, 'triangle'>, string> = {
+  cross: '×',
+  circle: '○',
+  diamond: '◆',
+};
+
 export const DEFAULT_SVG_OPTIONS: Required<SvgOptions> = {
   fontSize: 14,
   charWidth: 8.41,
@@ -31,6 +92,18 @@ export const DEFAULT_SVG_OPTIONS: Required<SvgOptions> = {
   borderRadius: 6,
 };
 
+export const DEFAULT_HTML_OPTIONS: Required<HtmlOptions> = {
+  fragment: false,
+  title: 'Diagram',
+  fontSize: DEFAULT_SVG_OPTIONS.fontSize,
+  fontFamily: DEFAULT_SVG_OPTIONS.fontFamily,
+  lightBg: DEFAULT_SVG_OPTIONS.lightBg,
+  lightFg: DEFAULT_SVG_OPTIONS.lightFg,
+  darkBg: DEFAULT_SVG_OPTIONS.darkBg,
+  darkFg: DEFAULT_SVG_OPTIONS.darkFg,
+  highlight: 'rgba(255, 196, 0, 0.35)',
+};
+
 export const DEFAULT_LAYOUT_OPTIONS: Required<LayoutOptions> = {
   defaultHGap: 3,
   vGap: 2,
@@ -38,4 +111,5 @@ export const DEFAULT_LAYOUT_OPTIONS: Required<LayoutOptions> = {
   padTop: 1,
   minBoxWidth: 12,
   minBoxHeight: 5,
+  maxWidth: Infinity,
 };
@@ -0,0 +1,214 @@
+// Coordinate assignment for layered layouts, after Brandes & Köpf: boxes are
+// lined up with the median of their neighbours in the previous layer to form
+// blocks that move as one, the blocks are packed as tightly as the layer
+// order allows, and the four sweep directions are balanced into one result.
+// Arrows between aligned boxes come out straight.
+
+export interface CoordinateOptions<T> {
+  /** Size of a node across the layers. */
+  size: (n: T) => number;
+  /** Free space needed between `a` and the node `b` that follows it in a layer. */
+  gap: (a: T, b: T) => number;
+  /** Offset from the start of `n` where edge number `edge` attaches.
+   *  Defaults to the midpoint, matching `getAnchor`. */
+  anchor?: (n: T, edge: number) => number;
+  /** Lowest coordinate a node may start at. */
+  origin: number;
+  /** Nodes whose start coordinate is fixed. */
+  pinned?: Map<T, number>;
+}
+
+interface Neighbor<T> {
+  node: T;
+  edge: number;
+}
+
+interface Sweep<T> {
+  layers: T[][];
+  neighbors: Map<T, Neighbor<T>[]>;
+  anchor: (n: T, edge: number) => number;
+  separation: (left: T, right: T) => number;
+}
+
+/**
+ * One sweep: align each node with a median neighbour in the previous layer
+ * (skipping alignments that would cross one already made), then give every
+ * block the lowest start its neighbours in each layer allow.
+ */
+function placeSweep<T>({ layers, neighbors, anchor, separation }: Sweep<T>): Map<T, number> {
+  const pos = new Map<T, number>();
+  for (const layer of layers) layer.forEach((n, i) => pos.set(n, i));
+
+  // Each node's offset from its block's root, so the aligned anchors meet
+  const root = new Map<T, T>();
+  const shift = new Map<T, number>();
+  for (const layer of layers) {
+    for (const n of layer) {
+      root.set(n, n);
+      shift.set(n, 0);
+    }
+  }
+  for (const layer of layers) {
+    let r = -1;
+    for (const v of layer) {
+      const ups = (neighbors.get(v) ?? [])
+        .filter(({ node }) => pos.has(node))
+        .sort((a, b) => pos.get(a.node)! - pos.get(b.node)!);
+      if (ups.length === 0) continue;
+      const d = ups.length;
+      for (const m of new Set([Math.floor((d - 1) / 2), Math.ceil((d - 1) / 2)])) {
+        const { node: u, edge } = ups[m];
+        if (root.get(v) === v && r < pos.get(u)!) {
+          root.set(v, root.get(u)!);
+          shift.set(v, shift.get(u)! + anchor(u, edge) - anchor(v, edge));
+          r = pos.get(u)!;
+        }
+      }
+    }
+  }
+
+  // Blocks must keep the order of their nodes in every layer: longest path
+  // over the "left of" constraints between blocks
+  const preds = new Map<T, Array<[T, number]>>();
+  const succs = new Map<T, T[]>();
+  const indeg = new Map<T, number>();
+  for (const r of new Set(root.values())) indeg.set(r, 0);
+  for (const layer of layers) {
+    for (let i = 1; i < layer.length; i++) {
+      const a = layer[i - 1];
+      const b = layer[i];
+      const ra = root.get(a)!;
+      const rb = root.get(b)!;
+      if (!preds.has(rb)) preds.set(rb, []);
+      preds.get(rb)!.push([ra, shift.get(a)! + separation(a, b) - shift.get(b)!]);
+      if (!succs.has(ra)) succs.set(ra, []);
+      succs.get(ra)!.push(rb);
+      indeg.set(rb, indeg.get(rb)! + 1);
+    }
+  }
+
+  // No node of a block may start below zero
+  const floor = new Map<T, number>();
+  for (const [n, r] of root) floor.set(r, Math.max(floor.get(r) ?? 0, -shift.get(n)!));
+
+  const x = new Map<T, number>();
+  const queue = [...indeg].filter(([, d]) => d === 0).map(([r]) => r);
+  while (queue.length > 0) {
+    const b = queue.shift()!;
+    x.set(b, Math.max(floor.get(b)!, ...(preds.get(b) ?? []).map(([a, sep]) => x.get(a)! + sep)));
+    for (const s of succs.get(b) ?? []) {
+      indeg.set(s, indeg.get(s)! - 1);
+      if (indeg.get(s) === 0) queue.push(s);
+    }
+  }
+
+  const result = new Map<T, number>();
+  for (const [n, r] of root) result.set(n, x.get(r)! + shift.get(n)!);
+  return result;
+}
+
+/** Clear overlaps around pinned nodes, keeping the layer order. */
+function applyPins<T>(layer: T[], start: Map<T, number>, opts: CoordinateOptions<T>): void {
+  const pinned = opts.pinned!;
+  for (const n of layer) {
+    if (pinned.has(n)) start.set(n, pinned.get(n)!);
+  }
+  for (let i = layer.length - 2; i >= 0; i--) {
+    const n = layer[i];
+    const next = layer[i + 1];
+    if (pinned.has(n)) continue;
+    const limit = start.get(next)! - opts.gap(n, next) - opts.size(n);
+    if (start.get(n)! > limit) start.set(n, Math.max(opts.origin, limit));
+  }
+  for (let i = 1; i < layer.length; i++) {
+    const n = layer[i];
+    const prev = layer[i - 1];
+    if (pinned.has(n)) continue;
+    const limit = start.get(prev)! + opts.size(prev) + opts.gap(prev, n);
+    if (start.get(n)! < limit) start.set(n, limit);
+  }
+}
+
+/**
+ * Assign each node a start coordinate across the layers so that edges
+ * between adjacent layers run straight wherever the layer order allows.
+ * Layers may be sparse; edges between nodes more than one (non-empty) layer
+ * apart don't pull on the alignment. Unpinned nodes start no lower than
+ * `origin`; pinned nodes keep their coordinate and their layer neighbours
+ * move out of their way.
+ */
+export function assignCoordinates<T>(layers: T[][], edges: Array<[T, T]>, opts: CoordinateOptions<T>): Map<T, number> {
+  const dense = layers.filter(layer => layer && layer.length > 0);
+  const layerOf = new Map<T, number>();
+  dense.forEach((layer, i) => layer.forEach(n => layerOf.set(n, i)));
+
+  const up = new Map<T, Neighbor<T>[]>();
+  const down = new Map<T, Neighbor<T>[]>();
+  edges.forEach(([a, b], edge) => {
+    const la = layerOf.get(a);
+    const lb = layerOf.get(b);
+    if (la == null || lb == null || Math.abs(la - lb) !== 1) return;
+    const [top, bottom] = la < lb ? [a, b] : [b, a];
+    if (!down.has(top)) down.set(top, []);
+    if (!up.has(bottom)) up.set(bottom, []);
+    down.get(top)!.push({ node: bottom, edge });
+    up.get(bottom)!.push({ node: top, edge });
+  });
+
+  const anchor = opts.anchor ?? ((n: T) => Math.floor(opts.size(n) / 2));
+
+  // The four sweeps: downward or upward, packed from either end of the layers.
+  // Sweeps packed from the far end run on mirrored coordinates and are
+  // mapped back afterwards.
+  const sweeps: Array<{ fromEnd: boolean; start: Map<T, number> }> = [];
+  for (const upward of [false, true]) {
+    for (const fromEnd of [false, true]) {
+      let order = upward ? [...dense].reverse() : dense;
+      if (fromEnd) order = order.map(layer => [...layer].reverse());
+      const start = placeSweep({
+        layers: order,
+        neighbors: upward ? down : up,
+        anchor: fromEnd ? (n, edge) => opts.size(n) - anchor(n, edge) : anchor,
+        separation: fromEnd
+          ? (l, r) => opts.size(l) + opts.gap(r, l)
+          : (l, r) => opts.size(l) + opts.gap(l, r),
+      });
+      if (fromEnd) for (const [n, p] of start) start.set(n, -p - opts.size(n));
+      sweeps.push({ fromEnd, start });
+    }
+  }
+
+  // Line the sweeps up against the narrowest one, then take the average median
+  const bounds = sweeps.map(({ start }) => {
+    const nodes = [...start.keys()];
+    return {
+      min: Math.min(...nodes.map(n => start.get(n)!)),
+      max: Math.max(...nodes.map(n => start.get(n)! + opts.size(n))),
+    };
+  });
+  let narrowest = 0;
+  bounds.forEach((b, i) => {
+    if (b.max - b.min < bounds[narrowest].max - bounds[narrowest].min) narrowest = i;
+  });
+  sweeps.forEach(({ fromEnd, start }, i) => {
+    const offset = fromEnd
+      ? bounds[narrowest].max - bounds[i].max
+      : bounds[narrowest].min - bounds[i].min;
+    for (const [n, p] of start) start.set(n, p + offset);
+  });
+
+  const result = new Map<T, number>();
+  for (const layer of dense) {
+    for (const n of layer) {
+      const values = sweeps.map(({ start }) => start.get(n)!).sort((a, b) => a - b);
+      result.set(n, Math.floor((values[1] + values[2]) / 2));
+    }
+  }
+
+  const low = Math.min(...result.values());
+  for (const [n, p] of result) result.set(n, p - low + opts.origin);
+  if (opts.pinned && opts.pinned.size > 0) {
+    for (const layer of dense) applyPins(layer, result, opts);
+  }
+  return result;
+}
@@ -0,0 +1,70 @@
+/**
+ * Pick a small set of edges whose reversal makes the graph acyclic, using the
+ * greedy Eades–Lin–Smyth ordering: sinks go to the back, sources to the front,
+ * and otherwise the node with the largest out-minus-in degree goes next. Ties
+ * fall to the earliest node in `nodes`, so the result is deterministic.
+ * Returns the indices of the edges to reverse; self-loops are never included.
+ */
+export function feedbackArcs(nodes: string[], edges: Array<[string, string]>): Set<number> {
+  const out = new Map<string, Set<string>>();
+  const inc = new Map<string, Set<string>>();
+  for (const id of nodes) {
+    out.set(id, new Set());
+    inc.set(id, new Set());
+  }
+  for (const [from, to] of edges) {
+    if (from === to || !out.has(from) || !out.has(to)) continue;
+    out.get(from)!.add(to);
+    inc.get(to)!.add(from);
+  }
+
+  const remaining = new Set(nodes);
+  const front: string[] = [];
+  const back: string[] = [];
+
+  function remove(id: string): void {
+    remaining.delete(id);
+    for (const next of out.get(id)!) inc.get(next)!.delete(id);
+    for (const prev of inc.get(id)!) out.get(prev)!.delete(id);
+  }
+
+  while (remaining.size > 0) {
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const id of remaining) {
+        if (out.get(id)!.size === 0) {
+          back.unshift(id);
+          remove(id);
+          changed = true;
+        } else if (inc.get(id)!.size === 0) {
+          front.push(id);
+          remove(id);
+          changed = true;
+        }
+      }
+    }
+    if (remaining.size === 0) break;
+
+    let best: string | null = null;
+    let bestDelta = -Infinity;
+    for (const id of remaining) {
+      const delta = out.get(id)!.size - inc.get(id)!.size;
+      if (delta > bestDelta) {
+        best = id;
+        bestDelta = delta;
+      }
+    }
+    front.push(best!);
+    remove(best!);
+  }
+
+  const position = new Map([...front, ...back].map((id, i) => [id, i]));
+  const reversed = new Set<number>();
+  edges.forEach(([from, to], i) => {
+    const a = position.get(from);
+    const b = position.get(to);
+    if (a != null && b != null && a > b) reversed.add(i);
+  });
+  return reversed;
+}
@@ -1,14 +1,71 @@
-import type { NodeDef } from './schema.js';
-import { getTextContent, getChildBoxes } from './schema.js';
+import type { NodeDef, Theme } from './schema.js';
+import { getTextContent, getChildBoxes, getPadding } from './schema.js';
 import { Canvas } from './canvas.js';
-import { BORDERS, SHADOW_CHAR } from './constants.js';
-import { centerText } from './geometry.js';
+import { SHADOW_CHAR } from './constants.js';
+import { borderChars } from './themes.js';
+import { alignText } from './geometry.js';
+import { wrapLines, wrapTitle, ellipsize } from './wrap.js';
+import { displayWidth } from './text-width.js';
+import { colorPen } from './color.js';
 
-export function drawBox(canvas: Canvas, box: NodeDef & { x: number; y: number; width: number; height: number }): void {
+/** A box's title and text as drawn, and whether any of it was cut to fit. */
+export interface FittedText {
+  // Title lines: the first sits on the top border, the rest just inside it
+  title: string[];
+  // Text lines padded to the inner width, the first `top` rows below the top border
+  lines: string[];
+  top: number;
+  truncated: boolean;
+}
+
+/**
+ * Wrap and place a box's title and text: text is aligned inside the
+ * padding, wrapped to the box, and cut with an ellipsis when there are more
+ * lines than rows. Title lines past the box's height are dropped.
+ */
+export function fitText(box: NodeDef & { width: number; height: number }): FittedText {
+  const { width, height, title } = box;
+  // wrapText only cuts text when the line is too narrow to wrap onto
+  const cut = (line: string, lineWidth: number) => lineWidth < 3 && displayWidth(line) > lineWidth;
+
+  const wrappedTitle = title ? wrapTitle(title, width) : [];
+  const titleLines = wrappedTitle.slice(0, Math.max(height - 1, 1));
+  let truncated = titleLines.length < wrappedTitle.length || (title != null && cut(title, width - 6));
+
+  const textLines = getTextContent(box);
+  if (!textLines) return { title: titleLines, lines: [], top: 0, truncated };
+  const pad = getPadding(box);
+  const innerWidth = width - 2 - pad.x * 2;
+  const top = Math.max(wrappedTitle.length, 1) + pad.y;
+  const rows = height - 1 - pad.y - top;
+  const wrapped = wrapLines(textLines, innerWidth);
+  truncated ||= textLines.some(line => cut(line, innerWidth)) || wrapped.length > Math.max(rows, 0);
+  if (wrapped.length > rows && rows > 0) {
+    wrapped.length = rows;
+    wrapped[rows - 1] = ellipsize(wrapped[rows - 1] + '…', innerWidth);
+  }
+  const free = rows - wrapped.length;
+  return {
+    title: titleLines,
+    lines: wrapped.map(line => alignText(line, innerWidth, box.align)),
+    top: top + (box.valign === 'top' ? 0 : box.valign === 'bottom' ? free : Math.floor(free / 2)),
+    truncated,
+  };
+}
+
+export function drawBox(canvas: Canvas, box: NodeDef & { x: number; y: number; width: number; height: number }, theme?: Theme): void {
   const { x, y, width, height, border = 'single', title, shadow = false } = box;
-  const b = BORDERS[border] || BORDERS.single;
+  const b = borderChars(border, theme);
+  const top = b.top ?? b.h;
+  const bottom = b.bottom ?? b.h;
+  const left = b.left ?? b.v;
+  const right = b.right ?? b.v;
+  const borderPen = colorPen(box.borderColor ?? box.color);
+  const textPen = colorPen(box.textColor ?? box.color);
 
   // Draw shadow first (so box draws over it)
+  canvas.owner = box;
+  canvas.pen = undefined;
   if (shadow) {
     for (let row = y + 1; row <= y + height; row++) {
       canvas.set(x + width, row, SHADOW_CHAR);
@@ -20,52 +77,61 @@ export function drawBox(canvas: Canvas, box: NodeDef & { x: number; y: number; w
   }
 
   // Top border
+  canvas.pen = borderPen;
   canvas.set(x, y, b.tl);
-  for (let i = 1; i < width - 1; i++) canvas.set(x + i, y, b.h);
+  for (let i = 1; i < width - 1; i++) canvas.set(x + i, y, top);
   canvas.set(x + width - 1, y, b.tr);
 
   // Bottom border
   canvas.set(x, y + height - 1, b.bl);
-  for (let i = 1; i < width - 1; i++) canvas.set(x + i, y + height - 1, b.h);
+  for (let i = 1; i < width - 1; i++) canvas.set(x + i, y + height - 1, bottom);
   canvas.set(x + width - 1, y + height - 1, b.br);
 
   // Side borders
   for (let row = y + 1; row < y + height - 1; row++) {
-    canvas.set(x, row, b.v);
-    canvas.set(x + width - 1, row, b.v);
+    canvas.set(x, row, left);
+    canvas.set(x + width - 1, row, right);
     // Clear interior (for nesting over shadows)
     for (let col = x + 1; col < x + width - 1; col++) {
       if (canvas.get(col, row) === SHADOW_CHAR) {
         canvas.set(col, row, ' ');
       }
+      canvas.claim(col, row);
+      // Background fill; nested boxes and text keep it when drawn on top
+      if (box.background != null) {
+        canvas.setAttributes(col, row, { bg: box.background });
+      }
     }
   }
 
-  // Title on top border
+  // Title on top border; any wrapped lines continue just inside it
+  const fitted = fitText(box);
   if (title) {
-    const titleStr = ` ${title} `;
+    const titleStr = ` ${fitted.title[0]} `;
     const titleX = x + 2;
-    canvas.set(titleX, y, b.h);
+    canvas.set(titleX, y, top);
+    canvas.pen = textPen;
     canvas.writeText(titleX + 1, y, titleStr);
-    const afterTitle = titleX + 1 + titleStr.length;
+    canvas.pen = borderPen;
+    const afterTitle = titleX + 1 + displayWidth(titleStr);
     if (afterTitle < x + width - 1) {
       for (let i = afterTitle; i < x + width - 1; i++) {
-        canvas.set(i, y, b.h);
+        canvas.set(i, y, top);
       }
     }
-  }
-
-  // Text content (centered)
-  const textLines = getTextContent(box);
-  if (textLines) {
-    const innerWidth = width - 4; // 2 border + 2 padding
-    const startRow = y + Math.floor((height - textLines.length) / 2);
-    for (let i = 0; i < textLines.length; i++) {
-      const padded = centerText(textLines[i], innerWidth);
-      canvas.writeText(x + 2, startRow + i, padded);
+    canvas.pen = textPen;
+    for (let i = 1; i < fitted.title.length; i++) {
+      canvas.writeText(titleX + 2, y + i, fitted.title[i]);
     }
   }
 
+  // Text content, inside the padding
+  canvas.pen = textPen;
+  const textX = x + 1 + getPadding(box).x;
+  fitted.lines.forEach((line, i) => canvas.writeText(textX, y + fitted.top + i, line));
+
+  canvas.pen = undefined;
+
   // Draw child boxes (nested) — before disabled overlay so it applies to children too
   const childBoxes = getChildBoxes(box);
   if (childBoxes) {
@@ -77,25 +143,33 @@ export function drawBox(canvas: Canvas, box: NodeDef & { x: number; y: number; w
         width: child.width!,
         height: child.height!,
       };
-      drawBox(canvas, absChild);
+      drawBox(canvas, absChild, theme);
     }
   }
 
-  // Disabled overlay: shade background (░) and strikethrough title
+  // Disabled overlay: shade background (░), strike through the title and dim the text
+  canvas.owner = box;
+  // Anything not written as text is a border or shadow, whatever its glyphs
   if (box.disabled) {
-    const structureChars = new Set('┌┐└┘─│╔╗╚╝═║┏┓┗┛━┃╭╮╰╯░');
     for (let col = x + 1; col < x + width - 1; col++) {
       const ch = canvas.get(col, y);
-      if (ch !== ' ' && !structureChars.has(ch)) {
-        canvas.set(col, y, ch + '\u0336');
+      if (ch !== ' ' && canvas.isText(col, y)) {
+        canvas.setAttributes(col, y, { strike: true });
       }
     }
     for (let row = y + 1; row < y + height - 1; row++) {
       for (let col = x + 1; col < x + width - 1; col++) {
-        if (canvas.get(col, row) === ' ') {
+        const ch = canvas.get(col, row);
+        if (ch === ' ') {
+          // A nested child's blank interior stays the child's
+          canvas.owner = canvas.getOwner(col, row) ?? box;
           canvas.set(col, row, '░');
+          canvas.owner = box;
+        } else if (canvas.isText(col, row)) {
+          canvas.setAttributes(col, row, { dim: true });
         }
       }
     }
   }
+  canvas.owner = undefined;
 }
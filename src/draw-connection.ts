@@ -1,49 +1,36 @@
-import type { ConnectionDef, NodeDef, Side } from './schema.js';
+import type { ConnectionDef, ConnectionPath, LineArms, LineChars, LineWeight, MarkerKind, NodeDef, Point, Side } from './schema.js';
+import { getChildBoxes } from './schema.js';
 import { Canvas } from './canvas.js';
-import { ARROW_HEADS } from './constants.js';
-import { resolveBox, getAnchor } from './geometry.js';
+import { ARROW_HEADS, LINE_STYLES, MARKERS } from './constants.js';
+import { resolveBox, getAnchor, detectSides } from './geometry.js';
+import type { Ports } from './ports.js';
+import { assignPorts } from './ports.js';
+import { drawLineCell, lineWeight } from './junctions.js';
+import type { Obstacles } from './router.js';
+import { buildObstacles, findRoute, isPathBlocked, obstaclesFor } from './router.js';
+import { displayWidth } from './text-width.js';
+import { colorPen } from './color.js';
 
 // DRY helpers for corner selection and label placement
 
-function pickCorner(hDir: number, yDir: number): string {
-  if (hDir > 0 && yDir > 0) return '┐';
-  if (hDir > 0 && yDir < 0) return '┘';
-  if (hDir < 0 && yDir > 0) return '┌';
-  return '└';
+function pickCorner(hDir: number, yDir: number, chars: LineChars): string {
+  if (hDir > 0 && yDir > 0) return chars.tr;
+  if (hDir > 0 && yDir < 0) return chars.br;
+  if (hDir < 0 && yDir > 0) return chars.tl;
+  return chars.bl;
 }
 
-function pickOppositeCorner(hDir: number, yDir: number): string {
-  if (hDir > 0 && yDir > 0) return '└';
-  if (hDir > 0 && yDir < 0) return '┌';
-  if (hDir < 0 && yDir > 0) return '┘';
-  return '┐';
+function pickOppositeCorner(hDir: number, yDir: number, chars: LineChars): string {
+  if (hDir > 0 && yDir > 0) return chars.bl;
+  if (hDir > 0 && yDir < 0) return chars.tl;
+  if (hDir < 0 && yDir > 0) return chars.br;
+  return chars.tr;
 }
 
-/** Merge two box-drawing characters at a junction point into a tee or cross. */
-function mergeJunction(existing: string, incoming: string, hDir: number): string {
-  const corners = '┐┘┌└';
-  if (!corners.includes(existing)) return incoming;
-  if (existing === incoming) return incoming;
-  // Two different corners at the same spot → tee junction
-  // hDir > 0: line comes from left → ├ ; hDir < 0: line comes from right → ┤
-  if (corners.includes(existing) && corners.includes(incoming)) {
-    return hDir > 0 ? '┤' : '├';
-  }
-  return incoming;
-}
-
-/** Merge a horizontal dash with an existing connection corner into a tee.
- *  Connection corners become tees; everything else gets overwritten. */
-function mergeHorizontal(existing: string, incoming: string): string {
-  switch (existing) {
-    case '┐': return '┬';
-    case '┌': return '┬';
-    case '┘': return '┴';
-    case '└': return '┴';
-    case '┬': return '┬';
-    case '┴': return '┴';
-    default: return incoming;
-  }
+/** Glyph for an end marker sitting against `side` of a box. */
+function pickMarker(kind: MarkerKind, side: Side): string {
+  if (kind === 'triangle') return ARROW_HEADS[side] || '▶';
+  return MARKERS[kind];
 }
 
 function placeLabel(canvas: Canvas, label: string, segStart: number, segEnd: number, y: number): void {
@@ -51,151 +38,309 @@ function placeLabel(canvas: Canvas, label: string, segStart: number, segEnd: num
   const lo = Math.min(segStart, segEnd);
   const hi = Math.max(segStart, segEnd);
   const segLen = hi - lo;
-  let midX = Math.floor((lo + hi) / 2) - Math.floor(padded.length / 2);
+  let midX = Math.floor((lo + hi) / 2) - Math.floor(displayWidth(padded) / 2);
   // Clamp so at least 1 dash remains on each side when there's room
-  if (segLen >= padded.length + 2) {
+  if (segLen >= displayWidth(padded) + 2) {
     midX = Math.max(midX, lo + 1);
-    midX = Math.min(midX, hi - padded.length - 1);
+    midX = Math.min(midX, hi - displayWidth(padded) - 1);
   }
   canvas.writeText(midX, y, padded);
 }
 
-export function drawConnection(canvas: Canvas, conn: ConnectionDef, boxes: NodeDef[], allConnections?: ConnectionDef[]): void {
+/** What `drawDiagram` works out once for all of a diagram's connections. */
+export interface SharedRouting {
+  // The boxes as obstacles on the canvas they're drawn on
+  obstacles?: Obstacles;
+  // Ports of every connection, from `assignPorts`
+  ports?: Map<ConnectionDef, Ports>;
+}
+
+/**
+ * Draw a connection onto the canvas. Returns the cells it was routed
+ * through, or undefined when either end doesn't exist.
+ */
+export function drawConnection(canvas: Canvas, conn: ConnectionDef, boxes: NodeDef[], allConnections?: ConnectionDef[], shared?: SharedRouting): ConnectionPath | undefined {
   const { from, to, label } = conn;
 
   const fromResolved = resolveBox(from, boxes);
   const toResolved = resolveBox(to, boxes);
-  if (!fromResolved || !toResolved) return;
-
-  // Auto-detect sides based on relative box positions if not specified
-  let fromSide: Side = conn.fromSide || 'right';
-  let toSide: Side = conn.toSide || 'left';
-  if (conn.fromSide == null && conn.toSide == null) {
-    const { box: fBox, absX: fX, absY: fY } = fromResolved;
-    const { box: tBox, absX: tX, absY: tY } = toResolved;
-    const dx = (tX + tBox.width / 2) - (fX + fBox.width / 2);
-    const dy = (tY + tBox.height / 2) - (fY + fBox.height / 2);
-    if (Math.abs(dy) > Math.abs(dx)) {
-      fromSide = dy > 0 ? 'bottom' : 'top';
-      toSide = dy > 0 ? 'top' : 'bottom';
+  if (!fromResolved || !toResolved) return undefined;
+
+  const { fromSide, toSide } = detectSides(conn, fromResolved, toResolved);
+
+  // Spread connections that share a box side along it
+  const ports = (shared?.ports ?? (allConnections && assignPorts(allConnections, boxes)))?.get(conn);
+  const fromPort = conn.fromPort ?? ports?.fromPort ?? 0;
+  const toPort = conn.toPort ?? ports?.toPort ?? 0;
+
+  const src = getAnchor(fromResolved, fromSide, fromPort);
+  const dst = getAnchor(toResolved, toSide, toPort);
+  const chars = LINE_STYLES[conn.style ?? 'solid'] || LINE_STYLES.solid;
+  const arrow = conn.arrow ?? 'end';
+  const hasHead = arrow === 'end' || arrow === 'both';
+  const hasTail = arrow === 'start' || arrow === 'both';
+
+  const isTopOrBottom = (side: Side) => side === 'top' || side === 'bottom';
+  // U-shaped routing (same-side exit and entry)
+  const isUShape = fromSide === toSide &&
+                   (isTopOrBottom(fromSide) ? src.x !== dst.x : src.y !== dst.y);
+  // Vertical connections (bottom→top or top→bottom)
+  const isVertical = !isUShape && isTopOrBottom(fromSide) && isTopOrBottom(toSide);
+
+  // Without a head marker the line simply runs up to the target box
+  const arrowHead = hasHead
+    ? pickMarker(conn.head ?? 'triangle', toSide)
+    : (toSide === 'top' || toSide === 'bottom' ? chars.v : chars.h);
+
+  // Lay out the conventional shape as a polyline through its corners
+  let polyline: Point[];
+  let avgX = 0;
+  let extendX = 0;
+  let extendY = 0;
+  let midX = 0;
+  let midY: number | null = null;
+  // A vertical line can share one column only if that column meets both boxes
+  const sharedX = Math.round((src.x + dst.x) / 2);
+  const canShareColumn = fromPort === 0 && toPort === 0 &&
+    sharedX > fromResolved.absX && sharedX < fromResolved.absX + fromResolved.box.width - 1 &&
+    sharedX > toResolved.absX && sharedX < toResolved.absX + toResolved.box.width - 1;
+  if (isVertical && src.x !== dst.x && !canShareColumn) {
+    // Jog across halfway between the two boxes
+    midY = Math.floor((src.y + dst.y) / 2);
+    polyline = [src, { x: src.x, y: midY }, { x: dst.x, y: midY }, dst];
+  } else if (isVertical) {
+    avgX = sharedX;
+    polyline = [{ x: avgX, y: src.y }, { x: avgX, y: dst.y }];
+  } else if (isUShape && isTopOrBottom(fromSide)) {
+    extendY = computeUShapeExtendY(src, dst, fromSide, siblingsOf(from, to, boxes), canvas.height);
+    polyline = [src, { x: src.x, y: extendY }, { x: dst.x, y: extendY }, dst];
+  } else if (isUShape) {
+    extendX = computeUShapeExtendX(src, dst, fromSide, siblingsOf(from, to, boxes));
+    polyline = [src, { x: extendX, y: src.y }, { x: extendX, y: dst.y }, dst];
+  } else if (src.y === dst.y) {
+    polyline = [src, dst];
+  } else {
+    // L-shaped routing — compute a shared midX across sibling connections
+    // (connections from the same source exiting the same side)
+    midX = computeLShapeMidX(src, dst, label, fromSide, from, boxes, allConnections);
+    polyline = [src, { x: midX, y: src.y }, { x: midX, y: dst.y }, dst];
+  }
+
+  // Only detour when the conventional shape would cut through a box
+  const obstacles = obstaclesFor(shared?.obstacles ?? buildObstacles(canvas.width, canvas.height, boxes), from, to);
+  const route = isPathBlocked(obstacles, polyline)
+    ? findRoute(obstacles, canvas, src, fromSide, dst, toSide)
+    : null;
+
+  const weight = lineWeight(conn.style ?? 'solid');
+  const linePen = colorPen(conn.borderColor ?? conn.color);
+  canvas.owner = conn;
+  canvas.pen = linePen;
+  const cells = route ?? polylineToPath(polyline);
+  drawPath(canvas, cells, fromSide, arrowHead, chars, weight);
+
+  if (label) {
+    canvas.pen = colorPen(conn.textColor ?? conn.color, conn.background);
+    if (route) {
+      placeRouteLabel(canvas, label, route);
+    } else if (isVertical && midY != null) {
+      canvas.writeText(Math.max(src.x, dst.x) + 2, midY, label);
+    } else if (isVertical) {
+      canvas.writeText(avgX + 2, Math.floor((src.y + dst.y) / 2), label);
+    } else if (isUShape && isTopOrBottom(fromSide)) {
+      placeLabel(canvas, label, src.x, dst.x, extendY);
+    } else if (isUShape) {
+      const srcLen = Math.abs(extendX - src.x);
+      const dstLen = Math.abs(extendX - dst.x);
+      const midY = Math.floor((src.y + dst.y) / 2);
+      if (Math.max(srcLen, dstLen) < displayWidth(label) + 2) {
+        // No room on the horizontal runs — label the vertical run instead
+        const x = fromSide === 'right' ? extendX + 2 : extendX - displayWidth(label) - 1;
+        canvas.writeText(Math.max(x, 0), midY, label);
+      } else if (srcLen >= dstLen) {
+        placeLabel(canvas, label, src.x, extendX, src.y);
+      } else {
+        placeLabel(canvas, label, dst.x, extendX, dst.y);
+      }
+    } else if (src.y === dst.y) {
+      placeLabel(canvas, label, Math.min(src.x, dst.x) + 1, Math.max(src.x, dst.x), src.y);
     } else {
-      fromSide = dx > 0 ? 'right' : 'left';
-      toSide = dx > 0 ? 'left' : 'right';
+      const padded = ` ${label} `;
+      const srcLen = Math.abs(midX - src.x);
+      const dstLen = Math.abs(dst.x - midX);
+      // Prefer dst segment (closer to target), fall back to src
+      if (dstLen >= displayWidth(padded)) {
+        placeLabel(canvas, label, midX, dst.x, dst.y);
+      } else if (srcLen >= displayWidth(padded)) {
+        placeLabel(canvas, label, src.x, midX, src.y);
+      }
     }
+    canvas.pen = linePen;
+  }
+
+  // Tail marker sits on the source anchor, pointing back into the source box
+  if (hasTail) {
+    const tailX = isVertical && !route && midY == null ? avgX : src.x;
+    canvas.set(tailX, src.y, pickMarker(conn.tail ?? 'triangle', fromSide));
   }
+  canvas.pen = undefined;
+  canvas.owner = undefined;
+  return { cells, fromSide, toSide };
+}
 
-  const src = getAnchor(fromResolved, fromSide);
-  const dst = getAnchor(toResolved, toSide);
-  const arrowHead = ARROW_HEADS[toSide] || '▶';
+/** Direction of travel between two adjacent cells. */
+function stepDir(a: Point, b: Point): Point {
+  return { x: Math.sign(b.x - a.x), y: Math.sign(b.y - a.y) };
+}
 
-  // Vertical connections (bottom→top or top→bottom)
-  const isVertical = (fromSide === 'bottom' || fromSide === 'top') &&
-                     (toSide === 'top' || toSide === 'bottom');
-
-  if (isVertical) {
-    const avgX = Math.round((src.x + dst.x) / 2);
-    const minY = Math.min(src.y, dst.y);
-    const maxY = Math.max(src.y, dst.y);
-    for (let row = minY; row <= maxY; row++) {
-      canvas.set(avgX, row, '│');
+function sideToOutward(side: Side): Point {
+  switch (side) {
+    case 'right': return { x: 1, y: 0 };
+    case 'left': return { x: -1, y: 0 };
+    case 'top': return { x: 0, y: -1 };
+    default: return { x: 0, y: 1 };
+  }
+}
+
+/** Expand a polyline through corner points into every cell it covers. */
+function polylineToPath(polyline: Point[]): Point[] {
+  const path: Point[] = [{ ...polyline[0] }];
+  for (let i = 1; i < polyline.length; i++) {
+    const to = polyline[i];
+    const step = stepDir(path[path.length - 1], to);
+    // Orthogonal segments only: walk one axis at a time
+    while (path[path.length - 1].x !== to.x) {
+      const last = path[path.length - 1];
+      path.push({ x: last.x + step.x, y: last.y });
     }
-    canvas.set(avgX, dst.y, arrowHead);
-    if (label) {
-      const midY = Math.floor((minY + maxY) / 2);
-      canvas.writeText(avgX + 2, midY, label);
+    while (path[path.length - 1].y !== to.y) {
+      const last = path[path.length - 1];
+      path.push({ x: last.x, y: last.y + step.y });
     }
-  } else if (fromSide === toSide && (fromSide === 'right' || fromSide === 'left') && src.y !== dst.y) {
-    // U-shaped routing (same-side exit and entry)
-    drawUShape(canvas, src, dst, fromSide, arrowHead, label, boxes);
-  } else if (src.y === dst.y) {
-    // Straight horizontal arrow
-    drawStraight(canvas, src, dst, arrowHead, label);
-  } else {
-    // L-shaped routing — compute a shared midX across sibling connections
-    // (connections from the same source exiting the same side)
-    const midX = computeLShapeMidX(src, dst, label, fromSide, from, boxes, allConnections);
-    drawLShape(canvas, src, dst, arrowHead, label, midX);
   }
+  return path;
+}
+
+/** Arms of a line cell: back toward where the line came from, out toward where it goes. */
+function armsFor(inDir: Point, outDir: Point, weight: LineWeight): LineArms {
+  const arms: LineArms = {};
+  if (inDir.x > 0) arms.left = weight;
+  if (inDir.x < 0) arms.right = weight;
+  if (inDir.y > 0) arms.up = weight;
+  if (inDir.y < 0) arms.down = weight;
+  if (outDir.x > 0) arms.right = weight;
+  if (outDir.x < 0) arms.left = weight;
+  if (outDir.y > 0) arms.down = weight;
+  if (outDir.y < 0) arms.up = weight;
+  return arms;
 }
 
-function drawUShape(
+/** Draw a connection's cell path, picking a glyph per cell from the direction
+ *  the line arrives in and leaves by, and merging it with lines already there. */
+function drawPath(
   canvas: Canvas,
-  src: { x: number; y: number },
-  dst: { x: number; y: number },
+  path: Point[],
   fromSide: Side,
   arrowHead: string,
-  label: string | undefined,
-  boxes: NodeDef[],
+  chars: LineChars,
+  weight: LineWeight,
 ): void {
-  const isRight = fromSide === 'right';
-  const dir = isRight ? 1 : -1;
-
-  let extendX = Math.max(src.x, dst.x);
-  for (const box of boxes) {
-    const right = (box.x || 0) + (box.width || 0) + (box.shadow ? 2 : 0);
-    if (isRight) extendX = Math.max(extendX, right);
-    else extendX = Math.min(extendX, box.x || 0);
-  }
-  extendX += dir;
-
-  // Horizontal from source
-  for (let col = src.x + dir; col !== extendX; col += dir) {
-    canvas.set(col, src.y, '─');
+  const outward = sideToOutward(fromSide);
+  const last = path.length - 1;
+
+  for (let i = 0; i < last; i++) {
+    const cell = path[i];
+    const inDir = i === 0 ? outward : stepDir(path[i - 1], cell);
+    const outDir = stepDir(cell, path[i + 1]);
+
+    let glyph: string;
+    if (inDir.x === outDir.x && inDir.y === outDir.y) {
+      // Leave the source anchor blank on horizontal exits
+      if (i === 0 && outDir.y === 0) continue;
+      glyph = outDir.y === 0 ? chars.h : chars.v;
+    } else if (inDir.y === 0) {
+      // Horizontal into vertical
+      glyph = pickCorner(inDir.x, outDir.y, chars);
+    } else {
+      // Vertical into horizontal
+      glyph = pickOppositeCorner(outDir.x, inDir.y, chars);
+    }
+    drawLineCell(canvas, cell.x, cell.y, armsFor(inDir, outDir, weight), glyph);
   }
+  canvas.set(path[last].x, path[last].y, arrowHead);
+}
 
-  const yDir = dst.y > src.y ? 1 : -1;
-
-  // First corner
-  if (isRight) canvas.set(extendX, src.y, pickCorner(1, yDir));
-  else canvas.set(extendX, src.y, pickCorner(-1, yDir));
-
-  // Vertical segment
-  for (let row = src.y + yDir; row !== dst.y; row += yDir) {
-    canvas.set(extendX, row, '│');
+/** Label the longest horizontal run of a routed path that has room for it. */
+function placeRouteLabel(canvas: Canvas, label: string, path: Point[]): void {
+  const padded = ` ${label} `;
+  let best: { start: number; end: number; y: number; len: number } | null = null;
+  let runStart = 0;
+  for (let i = 1; i <= path.length; i++) {
+    if (i < path.length && path[i].y === path[runStart].y) continue;
+    const len = Math.abs(path[i - 1].x - path[runStart].x);
+    if (len >= displayWidth(padded) + 2 && (!best || len > best.len)) {
+      best = { start: path[runStart].x, end: path[i - 1].x, y: path[runStart].y, len };
+    }
+    runStart = i;
   }
+  if (best) placeLabel(canvas, label, best.start, best.end, best.y);
+}
 
-  // Second corner — vertical arrives, horizontal exits back the way it came
-  // Right U down: ┘   Right U up: ┐   Left U down: └   Left U up: ┌
-  const secondCorner = isRight
-    ? (yDir > 0 ? '┘' : '┐')
-    : (yDir > 0 ? '└' : '┌');
-  canvas.set(extendX, dst.y, secondCorner);
+interface PlacedBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  shadow: boolean;
+}
 
-  // Horizontal from extend point back to destination
-  for (let col = extendX - dir; col !== dst.x; col -= dir) {
-    canvas.set(col, dst.y, '─');
-  }
-  canvas.set(dst.x, dst.y, arrowHead);
+function containsBox(node: NodeDef, id: string): boolean {
+  return node.id === id || (getChildBoxes(node) ?? []).some(c => containsBox(c, id));
+}
 
-  if (label) {
-    const srcLen = Math.abs(extendX - src.x);
-    const dstLen = Math.abs(extendX - dst.x);
-    if (srcLen >= dstLen) {
-      placeLabel(canvas, label, src.x, extendX, src.y);
-    } else {
-      placeLabel(canvas, label, dst.x, extendX, dst.y);
+/** Boxes sharing the innermost container that holds both endpoints, in
+ *  absolute coordinates — the ones a U-shape has to clear. */
+function siblingsOf(fromId: string, toId: string, boxes: NodeDef[], offsetX = 0, offsetY = 0): PlacedBox[] {
+  for (const box of boxes) {
+    const children = getChildBoxes(box);
+    if (children && box.id !== fromId && box.id !== toId &&
+        containsBox(box, fromId) && containsBox(box, toId)) {
+      return siblingsOf(fromId, toId, children, offsetX + (box.x ?? 0) + 1, offsetY + (box.y ?? 0) + 1);
     }
   }
+  return boxes.map(box => ({
+    x: offsetX + (box.x ?? 0),
+    y: offsetY + (box.y ?? 0),
+    width: box.width ?? 0,
+    height: box.height ?? 0,
+    shadow: box.shadow ?? false,
+  }));
 }
 
-function drawStraight(
-  canvas: Canvas,
-  src: { x: number; y: number },
-  dst: { x: number; y: number },
-  arrowHead: string,
-  label: string | undefined,
-): void {
-  const minX = Math.min(src.x, dst.x);
-  const maxX = Math.max(src.x, dst.x);
-  for (let col = minX + 1; col < maxX; col++) {
-    const existing = canvas.get(col, src.y);
-    canvas.set(col, src.y, mergeHorizontal(existing, '─'));
+/** Column for the vertical run of a U-shape: just past every box on that side. */
+function computeUShapeExtendX(src: Point, dst: Point, fromSide: Side, boxes: PlacedBox[]): number {
+  const isRight = fromSide === 'right';
+  let extendX = isRight ? Math.max(src.x, dst.x) : Math.min(src.x, dst.x);
+  for (const box of boxes) {
+    const right = box.x + box.width + (box.shadow ? 2 : 0);
+    if (isRight) extendX = Math.max(extendX, right);
+    else extendX = Math.min(extendX, box.x);
   }
-  canvas.set(dst.x, dst.y, arrowHead);
+  return extendX + (isRight ? 1 : -1);
+}
 
-  if (label) {
-    placeLabel(canvas, label, minX + 1, maxX, src.y);
+/** Row for the horizontal run of a top/bottom U-shape: one past the first
+ *  free row beyond every box, when the canvas has room for it. */
+function computeUShapeExtendY(src: Point, dst: Point, fromSide: Side, boxes: PlacedBox[], canvasHeight: number): number {
+  const isBottom = fromSide === 'bottom';
+  let extendY = isBottom ? Math.max(src.y, dst.y) : Math.min(src.y, dst.y);
+  for (const box of boxes) {
+    const bottom = box.y + box.height + (box.shadow ? 1 : 0);
+    if (isBottom) extendY = Math.max(extendY, bottom);
+    else extendY = Math.min(extendY, box.y - 1);
   }
+  if (isBottom) return extendY + 1 < canvasHeight ? extendY + 1 : extendY;
+  return extendY > 0 ? extendY - 1 : extendY;
 }
 
 /** Compute a midX for an L-shaped connection, ensuring the label fits,
@@ -225,7 +370,7 @@ function computeLShapeMidX(
     siblingDsts.push(sibDst);
     if (sib.label) {
       const padded = ` ${sib.label} `;
-      maxMinSeg = Math.max(maxMinSeg, padded.length + 2);
+      maxMinSeg = Math.max(maxMinSeg, displayWidth(padded) + 2);
     }
   }
 
@@ -248,58 +393,3 @@ function computeLShapeMidX(
 
   return midX;
 }
-
-function drawLShape(
-  canvas: Canvas,
-  src: { x: number; y: number },
-  dst: { x: number; y: number },
-  arrowHead: string,
-  label: string | undefined,
-  midX: number,
-): void {
-  const hDir = dst.x > src.x ? 1 : -1;
-  const yDir = dst.y > src.y ? 1 : -1;
-
-  // Horizontal from source
-  for (let col = src.x + hDir; col !== midX; col += hDir) {
-    const ex = canvas.get(col, src.y);
-    canvas.set(col, src.y, mergeHorizontal(ex, '─'));
-  }
-
-  // First corner — merge with existing character if another connection
-  // already drew a corner or dash here
-  const existing = canvas.get(midX, src.y);
-  const corner = pickCorner(hDir, yDir);
-  if (existing === '─') {
-    // A straight line already runs through here; produce a tee
-    canvas.set(midX, src.y, yDir > 0 ? '┬' : '┴');
-  } else {
-    canvas.set(midX, src.y, mergeJunction(existing, corner, hDir));
-  }
-
-  // Vertical segment
-  for (let row = src.y + yDir; row !== dst.y; row += yDir) {
-    canvas.set(midX, row, '│');
-  }
-
-  // Second corner
-  canvas.set(midX, dst.y, pickOppositeCorner(hDir, yDir));
-
-  // Horizontal to target
-  for (let col = midX + hDir; col !== dst.x; col += hDir) {
-    canvas.set(col, dst.y, '─');
-  }
-  canvas.set(dst.x, dst.y, arrowHead);
-
-  if (label) {
-    const padded = ` ${label} `;
-    const srcLen = Math.abs(midX - src.x);
-    const dstLen = Math.abs(dst.x - midX);
-    // Prefer dst segment (closer to target), fall back to src
-    if (dstLen >= padded.length) {
-      placeLabel(canvas, label, midX, dst.x, dst.y);
-    } else if (srcLen >= padded.length) {
-      placeLabel(canvas, label, src.x, midX, src.y);
-    }
-  }
-}
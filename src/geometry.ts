@@ -1,5 +1,7 @@
-import type { NodeDef, ResolvedBox, Side, Point } from './schema.js';
+import type { ConnectionDef, NodeDef, ResolvedBox, Side, Point, TextAlign } from './schema.js';
 import { getChildBoxes } from './schema.js';
+import { ellipsize } from './wrap.js';
+import { displayWidth } from './text-width.js';
 
 /**
  * Resolve a box by ID, searching the tree recursively.
@@ -23,24 +25,63 @@ export function resolveBox(id: string, boxes: NodeDef[], parentAbsX = 0, parentA
   return null;
 }
 
-export function getAnchor(resolved: ResolvedBox, side: Side): Point {
+/**
+ * Anchor point just outside a side of a box. `offset` shifts it along the
+ * side from the midpoint (right/down positive), clamped so it never lands
+ * on a corner.
+ */
+export function getAnchor(resolved: ResolvedBox, side: Side, offset = 0): Point {
   const { box, absX, absY } = resolved;
+  const clamp = (pos: number, size: number) =>
+    size > 2 ? Math.min(Math.max(pos, 1), size - 2) : pos;
+  const row = absY + clamp(Math.floor(box.height / 2) + offset, box.height);
+  const col = absX + clamp(Math.floor(box.width / 2) + offset, box.width);
   switch (side) {
     case 'right':
-      return { x: absX + box.width, y: absY + Math.floor(box.height / 2) };
+      return { x: absX + box.width, y: row };
     case 'left':
-      return { x: absX - 1, y: absY + Math.floor(box.height / 2) };
+      return { x: absX - 1, y: row };
     case 'top':
-      return { x: absX + Math.floor(box.width / 2), y: absY - 1 };
+      return { x: col, y: absY - 1 };
     case 'bottom':
-      return { x: absX + Math.floor(box.width / 2), y: absY + box.height };
+      return { x: col, y: absY + box.height };
     default:
-      return { x: absX - 1, y: absY + Math.floor(box.height / 2) };
+      return { x: absX - 1, y: row };
+  }
+}
+
+/**
+ * Sides a connection leaves and enters through. Explicit sides win; when both
+ * are omitted they're picked from the boxes' relative positions.
+ */
+export function detectSides(conn: ConnectionDef, from: ResolvedBox, to: ResolvedBox): { fromSide: Side; toSide: Side } {
+  let fromSide: Side = conn.fromSide || 'right';
+  let toSide: Side = conn.toSide || 'left';
+  if (conn.fromSide == null && conn.toSide == null) {
+    const dx = (to.absX + to.box.width / 2) - (from.absX + from.box.width / 2);
+    const dy = (to.absY + to.box.height / 2) - (from.absY + from.box.height / 2);
+    // Boxes stacked one above the other (sharing some columns but no rows)
+    // connect vertically even when they're further apart sideways
+    const overlapX = from.absX < to.absX + to.box.width && to.absX < from.absX + from.box.width;
+    const overlapY = from.absY < to.absY + to.box.height && to.absY < from.absY + from.box.height;
+    const stacked = overlapX && !overlapY;
+    const besideEachOther = overlapY && !overlapX;
+    if (stacked || (!besideEachOther && Math.abs(dy) > Math.abs(dx))) {
+      fromSide = dy > 0 ? 'bottom' : 'top';
+      toSide = dy > 0 ? 'top' : 'bottom';
+    } else {
+      fromSide = dx > 0 ? 'right' : 'left';
+      toSide = dx > 0 ? 'left' : 'right';
+    }
   }
+  return { fromSide, toSide };
 }
 
-export function centerText(text: string, width: number): string {
-  if (text.length >= width) return text.slice(0, width);
-  const leftPad = Math.floor((width - text.length) / 2);
-  return ' '.repeat(leftPad) + text + ' '.repeat(width - text.length - leftPad);
+/** Pad `text` to `width` cells, placing it per `align`; too-long text ends in an ellipsis. */
+export function alignText(text: string, width: number, align: TextAlign = 'center'): string {
+  const textWidth = displayWidth(text);
+  if (textWidth >= width) return ellipsize(text, width);
+  const free = width - textWidth;
+  const leftPad = align === 'left' ? 0 : align === 'right' ? free : Math.floor(free / 2);
+  return ' '.repeat(leftPad) + text + ' '.repeat(free - leftPad);
 }
@@ -0,0 +1,140 @@
+import type { CellAttributes, HtmlOptions, NodeDef, RenderOptions } from './schema.js';
+import { getTextContent } from './schema.js';
+import type { CellOwner } from './canvas.js';
+import { DEFAULT_HTML_OPTIONS } from './constants.js';
+import { SAFE_HREF, escapeXml, isConnection, renderCanvas, svgStyle } from './render.js';
+import { cssColor } from './color.js';
+import { resolveTheme } from './themes.js';
+import { classNames } from './styles.js';
+
+// Hover highlights the box or connection under the pointer, plus a box's
+// connections; a click shows what's known about it. Scoped to the element
+// the script sits in, so several diagrams can share a page.
+const SCRIPT = `(() => {
+  const root = document.currentScript.parentElement;
+  const meta = JSON.parse(root.querySelector('script[type="application/json"]').textContent);
+  const info = root.querySelector('.bor-info');
+  const related = (target) => {
+    const cell = target.closest && target.closest('[data-owner]');
+    if (!cell) return [];
+    const owner = meta[cell.dataset.owner];
+    const selectors = ['[data-owner="' + cell.dataset.owner + '"]'];
+    if (owner.kind === 'node' && owner.id != null) {
+      const id = CSS.escape(owner.id);
+      selectors.push('[data-from="' + id + '"]', '[data-to="' + id + '"]');
+    }
+    return root.querySelectorAll(selectors.join(','));
+  };
+  root.addEventListener('mouseover', (e) => related(e.target).forEach((el) => el.classList.add('bor-hl')));
+  root.addEventListener('mouseout', (e) => related(e.target).forEach((el) => el.classList.remove('bor-hl')));
+  root.addEventListener('click', (e) => {
+    const cell = e.target.closest('[data-owner]');
+    if (!cell) return;
+    const rows = Object.entries(meta[cell.dataset.owner]).flatMap(([key, value]) => {
+      const dt = document.createElement('dt');
+      const dd = document.createElement('dd');
+      dt.textContent = key;
+      if (key === 'href' && ${SAFE_HREF}.test(value)) {
+        const a = document.createElement('a');
+        a.href = value;
+        a.textContent = value;
+        dd.append(a);
+      } else {
+        dd.textContent = value;
+      }
+      return [dt, dd];
+    });
+    info.replaceChildren(...rows);
+    info.hidden = false;
+  });
+})();`;
+
+/** What the page shows about a box or connection when it's clicked. */
+function ownerMetadata(owner: CellOwner): Record<string, string> {
+  const fields = isConnection(owner)
+    ? { kind: 'connection', id: owner.id, from: owner.from, to: owner.to, label: owner.label, class: classNames(owner).join(' ') || undefined, tooltip: owner.tooltip }
+    : { kind: 'node', id: owner.id, title: owner.title, text: getTextContent(owner)?.join('\n'), class: classNames(owner).join(' ') || undefined, tooltip: owner.tooltip, href: owner.href };
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value != null)) as Record<string, string>;
+}
+
+/** Inline CSS for a cell's attributes, colours included. */
+function htmlStyle(attrs: CellAttributes): string {
+  return [
+    svgStyle(attrs),
+    attrs.fg != null && `color: ${cssColor(attrs.fg)}`,
+    attrs.bg != null && `background-color: ${cssColor(attrs.bg)}`,
+  ].filter(Boolean).join('; ');
+}
+
+/**
+ * Render a diagram as HTML: the text output in a `<pre>`, with every cell a
+ * box or connection drew wrapped in a span naming it (`data-owner`, plus
+ * `data-id`, and `data-from`/`data-to` for connections). Hovering a box
+ * highlights it and its connections; clicking one shows its details. Gives
+ * a whole page, or with `fragment` just a `<div>` to embed.
+ */
+export function renderHtml(input: NodeDef, options?: HtmlOptions, layoutOptions?: RenderOptions): string {
+  // A theme's SVG colours and font apply here too
+  const themed = Object.entries(resolveTheme(layoutOptions?.theme)?.svg ?? {})
+    .filter(([key, value]) => value != null && key in DEFAULT_HTML_OPTIONS);
+  const opts: Required<HtmlOptions> = { ...DEFAULT_HTML_OPTIONS, ...Object.fromEntries(themed), ...options };
+  const canvas = renderCanvas(input, layoutOptions);
+  const indent = canvas.indent();
+
+  const owners = new Map<CellOwner, number>();
+  const rows = canvas.grid.map((_, y) => canvas.runs(y, indent, { byOwner: true }).map(run => {
+    const text = escapeXml(run.text);
+    const style = run.attrs ? htmlStyle(run.attrs) : '';
+    if (!run.owner && !style) return text;
+    const attrs: string[] = [];
+    if (run.owner) {
+      if (!owners.has(run.owner)) owners.set(run.owner, owners.size);
+      attrs.push(`data-owner="${owners.get(run.owner)}"`);
+      if (run.owner.id != null) attrs.push(`data-id="${escapeXml(run.owner.id)}"`);
+      if (isConnection(run.owner)) attrs.push(`data-from="${escapeXml(run.owner.from)}" data-to="${escapeXml(run.owner.to)}"`);
+      const classes = classNames(run.owner);
+      if (classes.length > 0) attrs.push(`class="${escapeXml(classes.join(' '))}"`);
+      if (run.owner.tooltip) attrs.push(`title="${escapeXml(run.owner.tooltip)}"`);
+    }
+    if (style) attrs.push(`style="${style}"`);
+    return `<span ${attrs.join(' ')}>${text}</span>`;
+  }).join(''));
+
+  // Keep "</script>" in labels from ending the data block early
+  const metadata = JSON.stringify([...owners.keys()].map(ownerMetadata)).replace(/</g, '\\u003c');
+
+  const fragment = `<div class="box-of-rain">
+<style>
+  .box-of-rain { color: ${opts.lightFg}; background: ${opts.lightBg}; padding: 1em; border-radius: 6px; }
+  .box-of-rain pre { margin: 0; font-family: ${opts.fontFamily}; font-size: ${opts.fontSize}px; line-height: 1; }
+  .box-of-rain [data-owner] { cursor: pointer; }
+  .box-of-rain .bor-hl { background: ${opts.highlight}; }
+  .box-of-rain .bor-info { margin: 1em 0 0; display: grid; grid-template-columns: auto 1fr; gap: 0.25em 1em; font-family: ${opts.fontFamily}; }
+  .box-of-rain .bor-info[hidden] { display: none; }
+  .box-of-rain .bor-info dt { font-weight: bold; }
+  .box-of-rain .bor-info dd { margin: 0; white-space: pre-wrap; }
+  .box-of-rain .bor-info a { color: inherit; }
+  @media (prefers-color-scheme: dark) {
+    .box-of-rain { color: ${opts.darkFg}; background: ${opts.darkBg}; }
+  }
+</style>
+<pre>${rows.join('\n')}</pre>
+<dl class="bor-info" hidden></dl>
+<script type="application/json">${metadata}</script>
+<script>
+${SCRIPT}
+</script>
+</div>`;
+
+  if (opts.fragment) return fragment;
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeXml(opts.title)}</title>
+</head>
+<body>
+${fragment}
+</body>
+</html>`;
+}
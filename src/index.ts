@@ -1,20 +1,46 @@
 // Public API
-export { render, renderSvg } from './render.js';
+export { render, renderAnsi, renderCanvas, renderSvg } from './render.js';
+export { renderVectorSvg } from './vector-svg.js';
+export { renderHtml } from './html.js';
 export { autoLayout } from './layout.js';
+export { applyStyles } from './styles.js';
+export { diagramJsonSchema } from './json-schema.js';
+export type { JsonSchema } from './json-schema.js';
+export { validate, schemaDiagnostics, formatDiagnostic, formatPath, DiagramError } from './validate.js';
 export { Canvas } from './canvas.js';
+export { isColor } from './color.js';
+export { asciiGlyph } from './charset.js';
+export { registerBorderStyle, registerTheme, isBorderStyle, borderStyleNames, resolveTheme } from './themes.js';
+export type { CellRun } from './canvas.js';
 export { drawBox } from './draw-box.js';
 export { drawConnection } from './draw-connection.js';
-export { resolveBox, getAnchor } from './geometry.js';
-export { BORDERS, SHADOW_CHAR, ARROW_HEADS } from './constants.js';
-export { DiagramSchema, NodeSchema, ConnectionSchema } from './schema.js';
+export { resolveBox, getAnchor, detectSides } from './geometry.js';
+export { assignPorts } from './ports.js';
+export type { Ports } from './ports.js';
+export { BORDERS, LINE_STYLES, SHADOW_CHAR, ARROW_HEADS, ASCII_GLYPHS } from './constants.js';
+export { DiagramSchema, NodeSchema, ConnectionSchema, StyleRuleSchema, ThemeSchema } from './schema.js';
 export type {
   NodeDef,
   ConnectionDef,
   Side,
   BorderStyle,
+  TextAlign,
+  VerticalAlign,
   BorderChars,
+  LineStyle,
+  LineChars,
+  CellAttributes,
+  ConnectionPath,
+  Color,
   Point,
   ResolvedBox,
   SvgOptions,
+  HtmlOptions,
   LayoutOptions,
+  RenderOptions,
+  Charset,
+  Theme,
+  StyleRule,
+  Diagnostic,
+  DiagnosticCode,
 } from './schema.js';
@@ -0,0 +1,88 @@
+import { z } from 'zod';
+import type { ZodTypeAny } from 'zod';
+import { BorderSchema, ColorSchema, ConnectionSchema, DiagramSchema, StyleRuleSchema } from './schema.js';
+import { COLOR_NAMES } from './color.js';
+import { borderStyleNames } from './themes.js';
+
+/** A JSON Schema, as a plain object ready for `JSON.stringify`. */
+export type JsonSchema = { [keyword: string]: unknown };
+
+// Schemas given a definition of their own, referred to wherever they're used
+const DEFINITIONS = new Map<ZodTypeAny, string>([
+  [DiagramSchema, 'node'],
+  [ConnectionSchema, 'connection'],
+  [StyleRuleSchema, 'styleRule'],
+]);
+
+/**
+ * Refinements only run as code, so these say in JSON Schema what they
+ * check. Border styles are listed as registered when the schema is made.
+ */
+const REFINEMENTS = new Map<ZodTypeAny, () => JsonSchema>([
+  [BorderSchema, () => ({ type: 'string', enum: borderStyleNames() })],
+  [ColorSchema, () => ({
+    anyOf: [
+      { type: 'string', enum: COLOR_NAMES },
+      { type: 'string', pattern: '^#(?:[0-9a-fA-F]{3}|[0-9a-fA-F]{6})$' },
+      { type: 'integer', minimum: 0, maximum: 255 },
+    ],
+  })],
+]);
+
+/** The JSON Schema for a Zod schema, without its description. */
+function convertType(schema: ZodTypeAny): JsonSchema {
+  const refinement = REFINEMENTS.get(schema);
+  if (refinement) return refinement();
+  if (schema instanceof z.ZodOptional) return convert(schema.unwrap());
+  if (schema instanceof z.ZodLazy) return convert(schema.schema);
+  if (schema instanceof z.ZodString) {
+    return { type: 'string', ...(schema.minLength != null && { minLength: schema.minLength }) };
+  }
+  if (schema instanceof z.ZodNumber) {
+    return {
+      type: schema.isInt ? 'integer' : 'number',
+      ...(schema.minValue != null && { minimum: schema.minValue }),
+      ...(schema.maxValue != null && { maximum: schema.maxValue }),
+    };
+  }
+  if (schema instanceof z.ZodBoolean) return { type: 'boolean' };
+  if (schema instanceof z.ZodEnum) return { type: 'string', enum: schema.options };
+  if (schema instanceof z.ZodUnion) return { anyOf: schema.options.map((option: ZodTypeAny) => convert(option)) };
+  if (schema instanceof z.ZodArray) return { type: 'array', items: convert(schema.element) };
+  if (schema instanceof z.ZodRecord) return { type: 'object', additionalProperties: convert(schema.valueSchema) };
+  if (schema instanceof z.ZodObject) {
+    const shape: Record<string, ZodTypeAny> = schema.shape;
+    const required = Object.keys(shape).filter(key => !shape[key].isOptional());
+    return {
+      type: 'object',
+      properties: Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, convert(value)])),
+      ...(required.length > 0 && { required }),
+      ...(schema._def.unknownKeys === 'strict' && { additionalProperties: false }),
+    };
+  }
+  throw new Error(`No JSON Schema for ${schema._def.typeName}`);
+}
+
+/** The JSON Schema for a Zod schema, or a reference to its definition. */
+function convert(schema: ZodTypeAny, inline = false): JsonSchema {
+  const name = DEFINITIONS.get(schema);
+  if (name && !inline) return { $ref: `#/definitions/${name}` };
+  const converted = convertType(schema);
+  return schema.description ? { description: schema.description, ...converted } : converted;
+}
+
+/**
+ * The diagram format as a JSON Schema (draft-07, which editors and the
+ * YAML language server support best), for validation and autocomplete in
+ * `.json` and `.yaml` diagram files. Generated from `DiagramSchema`, so it
+ * accepts the border styles registered when it's called.
+ */
+export function diagramJsonSchema(): JsonSchema {
+  return {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title: 'box-of-rain diagram',
+    description: 'A box-of-rain diagram: the root box, whose children are drawn and connected',
+    $ref: '#/definitions/node',
+    definitions: Object.fromEntries([...DEFINITIONS].map(([schema, name]) => [name, convert(schema, true)])),
+  };
+}
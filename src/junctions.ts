@@ -0,0 +1,120 @@
+import type { LineArms, LineStyle, LineWeight } from './schema.js';
+import { Canvas } from './canvas.js';
+import { HOP_CHAR } from './constants.js';
+
+// Box-drawing glyphs keyed by the weight of each arm, in up/down/left/right
+// order: L = light, H = heavy, D = double, - = no arm
+const GLYPH_ARMS: Array<[string, string]> = [
+  // Straights and half lines
+  ['─', '--LL'], ['━', '--HH'], ['═', '--DD'], ['╼', '--LH'], ['╾', '--HL'],
+  ['│', 'LL--'], ['┃', 'HH--'], ['║', 'DD--'], ['╽', 'LH--'], ['╿', 'HL--'],
+  ['╴', '--L-'], ['╸', '--H-'], ['╶', '---L'], ['╺', '---H'],
+  ['╵', 'L---'], ['╹', 'H---'], ['╷', '-L--'], ['╻', '-H--'],
+  // Corners
+  ['┌', '-L-L'], ['┍', '-L-H'], ['┎', '-H-L'], ['┏', '-H-H'], ['╒', '-L-D'], ['╓', '-D-L'], ['╔', '-D-D'],
+  ['┐', '-LL-'], ['┑', '-LH-'], ['┒', '-HL-'], ['┓', '-HH-'], ['╕', '-LD-'], ['╖', '-DL-'], ['╗', '-DD-'],
+  ['└', 'L--L'], ['┕', 'L--H'], ['┖', 'H--L'], ['┗', 'H--H'], ['╘', 'L--D'], ['╙', 'D--L'], ['╚', 'D--D'],
+  ['┘', 'L-L-'], ['┙', 'L-H-'], ['┚', 'H-L-'], ['┛', 'H-H-'], ['╛', 'L-D-'], ['╜', 'D-L-'], ['╝', 'D-D-'],
+  // Tees
+  ['├', 'LL-L'], ['┝', 'LL-H'], ['┞', 'HL-L'], ['┟', 'LH-L'], ['┠', 'HH-L'], ['┡', 'HL-H'], ['┢', 'LH-H'], ['┣', 'HH-H'],
+  ['╞', 'LL-D'], ['╟', 'DD-L'], ['╠', 'DD-D'],
+  ['┤', 'LLL-'], ['┥', 'LLH-'], ['┦', 'HLL-'], ['┧', 'LHL-'], ['┨', 'HHL-'], ['┩', 'HLH-'], ['┪', 'LHH-'], ['┫', 'HHH-'],
+  ['╡', 'LLD-'], ['╢', 'DDL-'], ['╣', 'DDD-'],
+  ['┬', '-LLL'], ['┭', '-LHL'], ['┮', '-LLH'], ['┯', '-LHH'], ['┰', '-HLL'], ['┱', '-HHL'], ['┲', '-HLH'], ['┳', '-HHH'],
+  ['╤', '-LDD'], ['╥', '-DLL'], ['╦', '-DDD'],
+  ['┴', 'L-LL'], ['┵', 'L-HL'], ['┶', 'L-LH'], ['┷', 'L-HH'], ['┸', 'H-LL'], ['┹', 'H-HL'], ['┺', 'H-LH'], ['┻', 'H-HH'],
+  ['╧', 'L-DD'], ['╨', 'D-LL'], ['╩', 'D-DD'],
+  // Crosses
+  ['┼', 'LLLL'], ['┽', 'LLHL'], ['┾', 'LLLH'], ['┿', 'LLHH'], ['╀', 'HLLL'], ['╁', 'LHLL'], ['╂', 'HHLL'],
+  ['╃', 'HLHL'], ['╄', 'HLLH'], ['╅', 'LHHL'], ['╆', 'LHLH'], ['╇', 'HLHH'], ['╈', 'LHHH'], ['╉', 'HHHL'],
+  ['╊', 'HHLH'], ['╋', 'HHHH'], ['╪', 'LLDD'], ['╫', 'DDLL'], ['╬', 'DDDD'],
+];
+
+const WEIGHT_CODES: Record<string, LineWeight> = { L: 'light', H: 'heavy', D: 'double' };
+const ARM_ORDER = ['up', 'down', 'left', 'right'] as const;
+const WEIGHT_RANK: Record<LineWeight, number> = { light: 0, heavy: 1, double: 2 };
+
+function armsKey(arms: LineArms): string {
+  return ARM_ORDER.map(arm => arms[arm]?.[0].toUpperCase() ?? '-').join('');
+}
+
+const GLYPH_BY_KEY = new Map(GLYPH_ARMS.map(([glyph, key]) => [key, glyph]));
+
+/** Arms of a box-drawing glyph, or null for anything else. */
+export function glyphArms(glyph: string): LineArms | null {
+  const entry = GLYPH_ARMS.find(([g]) => g === glyph);
+  if (!entry) return null;
+  const arms: LineArms = {};
+  ARM_ORDER.forEach((arm, i) => {
+    const code = entry[1][i];
+    if (code !== '-') arms[arm] = WEIGHT_CODES[code];
+  });
+  return arms;
+}
+
+/** Glyph for a set of arms. Weight mixes Unicode can't draw (heavy with
+ *  double, most light/double tees) fall back to the heaviest weight present. */
+export function junctionGlyph(arms: LineArms): string {
+  const exact = GLYPH_BY_KEY.get(armsKey(arms));
+  if (exact) return exact;
+  let heaviest: LineWeight = 'light';
+  for (const arm of ARM_ORDER) {
+    const w = arms[arm];
+    if (w && WEIGHT_RANK[w] > WEIGHT_RANK[heaviest]) heaviest = w;
+  }
+  const uniform: LineArms = {};
+  for (const arm of ARM_ORDER) {
+    if (arms[arm]) uniform[arm] = heaviest;
+  }
+  return GLYPH_BY_KEY.get(armsKey(uniform)) ?? '┼';
+}
+
+/** Junction weight of a connection line style. Dashed and dotted lines join as light lines. */
+export function lineWeight(style: LineStyle): LineWeight {
+  if (style === 'bold') return 'heavy';
+  if (style === 'double') return 'double';
+  return 'light';
+}
+
+function sameArms(a: LineArms, b: LineArms): boolean {
+  return ARM_ORDER.every(arm => a[arm] === b[arm]);
+}
+
+function isStraight(arms: LineArms, axis: 'h' | 'v'): boolean {
+  return axis === 'h'
+    ? arms.left != null && arms.right != null && arms.up == null && arms.down == null
+    : arms.up != null && arms.down != null && arms.left == null && arms.right == null;
+}
+
+/**
+ * Draw one cell of a connection line, merging it with any connection line
+ * already there. Lines that meet at a corner or tee join into the matching
+ * tee or cross; two straight lines crossing at right angles don't join, so the
+ * cell gets a hop glyph instead. Box borders and text are simply overwritten.
+ */
+export function drawLineCell(canvas: Canvas, x: number, y: number, arms: LineArms, glyph: string): void {
+  const existing = canvas.getArms(x, y);
+  if (!existing) {
+    canvas.setLine(x, y, glyph, arms);
+    return;
+  }
+
+  const merged: LineArms = { ...existing };
+  for (const arm of ARM_ORDER) {
+    const w = arms[arm];
+    if (w && (!merged[arm] || WEIGHT_RANK[w] > WEIGHT_RANK[merged[arm]!])) merged[arm] = w;
+  }
+
+  const crosses = (isStraight(existing, 'h') && isStraight(arms, 'v')) ||
+                  (isStraight(existing, 'v') && isStraight(arms, 'h'));
+  if (crosses) {
+    canvas.setLine(x, y, HOP_CHAR, merged);
+  } else if (sameArms(merged, existing)) {
+    // Nothing new here — keep the existing glyph (e.g. a dashed or hop cell)
+    canvas.setLine(x, y, canvas.get(x, y), merged);
+  } else if (sameArms(merged, arms)) {
+    canvas.setLine(x, y, glyph, merged);
+  } else {
+    canvas.setLine(x, y, junctionGlyph(merged), merged);
+  }
+}
@@ -1,17 +1,59 @@
-import type { NodeDef, ConnectionDef, LayoutOptions } from './schema.js';
-import { getTextContent, getChildBoxes, collectConnections } from './schema.js';
+import type { NodeDef, ConnectionDef, LayoutOptions, Side } from './schema.js';
+import { getTextContent, getChildBoxes, getPadding, collectConnections } from './schema.js';
 import { DEFAULT_LAYOUT_OPTIONS } from './constants.js';
+import { orderLayers } from './ordering.js';
+import { feedbackArcs } from './cycles.js';
+import { assignCoordinates } from './coordinates.js';
+import { wrapLines, wrapTitle } from './wrap.js';
+import { displayWidth } from './text-width.js';
+
+/** Automatically spread ports a box needs along its sides, for sizing it. */
+interface PortCounts {
+  // The most on either the left or the right side, which run along its height
+  leftRight: number;
+  // The most on either the top or the bottom side, which run along its width
+  topBottom: number;
+}
+
+/**
+ * Count the connection ends on a box that take an automatically spread port,
+ * by the side they attach to. Ends with no side given attach the way the
+ * flow the box sits in runs, as they will once it's laid out.
+ */
+function portCounts(id: string | undefined, connections: ConnectionDef[], vertical: boolean): PortCounts {
+  const counts: Record<Side, number> = { left: 0, right: 0, top: 0, bottom: 0 };
+  if (id) {
+    for (const conn of connections) {
+      const auto = conn.fromSide == null && conn.toSide == null;
+      if (conn.from === id && conn.fromPort == null) counts[auto ? (vertical ? 'bottom' : 'right') : conn.fromSide ?? 'right']++;
+      if (conn.to === id && conn.toPort == null) counts[auto ? (vertical ? 'top' : 'left') : conn.toSide ?? 'left']++;
+    }
+  }
+  return { leftRight: Math.max(counts.left, counts.right), topBottom: Math.max(counts.top, counts.bottom) };
+}
 
-function autoSizeBox(box: NodeDef, opts: Required<LayoutOptions>): void {
+/** Rows a wrapped title takes up inside the box, below the top border. */
+function titleRows(box: NodeDef, width: number): number {
+  return box.title ? wrapTitle(box.title, width).length - 1 : 0;
+}
+
+function autoSizeBox(box: NodeDef, opts: Required<LayoutOptions>, ports: PortCounts = { leftRight: 0, topBottom: 0 }): void {
   const lines = getTextContent(box) || [];
-  const longestLine = lines.reduce((max, l) => Math.max(max, l.length), 0);
-  const titleLen = box.title ? box.title.length : 0;
+  const longestLine = lines.reduce((max, l) => Math.max(max, displayWidth(l)), 0);
+  const titleLen = box.title ? displayWidth(box.title) : 0;
+
+  const pad = getPadding(box);
 
   if (box.width == null) {
-    box.width = Math.max(longestLine + 4, titleLen + 6, opts.minBoxWidth);
+    const maxWidth = Math.max(box.maxWidth ?? opts.maxWidth, 3 + pad.x * 2);
+    const textWidth = Math.min(Math.max(longestLine + 2 + pad.x * 2, titleLen + 6, opts.minBoxWidth), maxWidth);
+    // Wide enough for the text, and to give each top or bottom connection its own port
+    box.width = Math.max(textWidth, ports.topBottom + 2);
   }
   if (box.height == null) {
-    box.height = Math.max(lines.length + 2, opts.minBoxHeight);
+    // Tall enough for the wrapped text, and to give each left or right connection its own port
+    const textRows = wrapLines(lines, box.width - 2 - pad.x * 2).length + titleRows(box, box.width);
+    box.height = Math.max(textRows + 2 + pad.y * 2, opts.minBoxHeight, ports.leftRight + 2);
   }
 }
 
@@ -29,7 +71,12 @@ function equalizeWidths(children: NodeDef[]): void {
   }
 }
 
-function computeLayerGaps(layers: NodeDef[][], connections: ConnectionDef[], defaultGap: number): number[] {
+/**
+ * Gap after each layer. Horizontal layers widen the gap to fit labels on the
+ * connections crossing it; vertical layers only need a couple of extra rows,
+ * since labels sit beside the vertical line.
+ */
+function computeLayerGaps(layers: NodeDef[][], connections: ConnectionDef[], defaultGap: number, vertical = false): number[] {
   const gaps: number[] = [];
   const idToLayer = new Map<string, number>();
   for (let i = 0; i < layers.length; i++) {
@@ -49,16 +96,94 @@ function computeLayerGaps(layers: NodeDef[][], connections: ConnectionDef[], def
     if (fromLayer >= toLayer) continue;
     if (conn.fromSide && conn.toSide && conn.fromSide === conn.toSide) continue;
     if (toLayer - fromLayer === 1) {
-      pairMax.set(fromLayer, Math.max(pairMax.get(fromLayer) || 0, conn.label.length));
+      pairMax.set(fromLayer, Math.max(pairMax.get(fromLayer) || 0, displayWidth(conn.label)));
     }
   }
   for (let i = 0; i < layers.length; i++) {
     const maxLabel = pairMax.get(i) || 0;
-    gaps.push(Math.max(defaultGap, maxLabel + 6));
+    if (vertical) {
+      gaps.push(maxLabel > 0 ? defaultGap + 2 : defaultGap);
+    } else {
+      gaps.push(Math.max(defaultGap, maxLabel + 6));
+    }
   }
   return gaps;
 }
 
+/** Flip layer numbers so the flow runs right-to-left (or bottom-to-top). */
+function mirrorLayers(layer: Map<string, number>): void {
+  const last = Math.max(0, ...layer.values());
+  for (const [id, l] of layer) layer.set(id, last - l);
+}
+
+/**
+ * Longest-path layering. Cycles are broken first by reversing a small
+ * feedback arc set; the indices of those edges come back as `reversed` so
+ * they can be drawn as back-edges.
+ */
+function assignLayers(ids: string[], edges: Array<[string, string]>): { layer: Map<string, number>; reversed: Set<number> } {
+  const reversed = feedbackArcs(ids, edges);
+  const adj = new Map<string, string[]>();
+  const inDeg = new Map<string, number>();
+  for (const id of ids) {
+    adj.set(id, []);
+    inDeg.set(id, 0);
+  }
+  edges.forEach(([from, to], i) => {
+    if (from === to || !adj.has(from) || !adj.has(to)) return;
+    const [a, b] = reversed.has(i) ? [to, from] : [from, to];
+    adj.get(a)!.push(b);
+    inDeg.set(b, inDeg.get(b)! + 1);
+  });
+
+  const layer = new Map<string, number>();
+  const queue = ids.filter(id => inDeg.get(id) === 0);
+  for (const id of queue) layer.set(id, 0);
+  let qi = 0;
+  while (qi < queue.length) {
+    const cur = queue[qi++];
+    for (const next of adj.get(cur)!) {
+      const newLayer = layer.get(cur)! + 1;
+      layer.set(next, Math.max(layer.get(next) || 0, newLayer));
+      inDeg.set(next, inDeg.get(next)! - 1);
+      if (inDeg.get(next) === 0) queue.push(next);
+    }
+  }
+  return { layer, reversed };
+}
+
+/**
+ * Send back-edges around the layers instead of through them: both ends
+ * attach to the same side — below or above the boxes in a horizontal flow,
+ * right or left of them in a vertical one — whichever has fewer boxes in
+ * the way. `ends` maps each back-edge to the boxes standing in for its
+ * endpoints among `siblings`. Connections with explicit sides are left alone.
+ */
+function routeBackEdges(ends: Map<ConnectionDef, [NodeDef, NodeDef]>, siblings: NodeDef[], vertical: boolean): void {
+  const [after, before]: [Side, Side] = vertical ? ['right', 'left'] : ['bottom', 'top'];
+  for (const [conn, reps] of ends) {
+    if (conn.fromSide || conn.toSide) continue;
+    let countAfter = 0;
+    let countBefore = 0;
+    for (const rep of reps) {
+      const start = vertical ? rep.y ?? 0 : rep.x ?? 0;
+      const end = start + (vertical ? rep.height ?? 0 : rep.width ?? 0);
+      for (const box of siblings) {
+        if (box === reps[0] || box === reps[1]) continue;
+        const boxStart = vertical ? box.y ?? 0 : box.x ?? 0;
+        const boxEnd = boxStart + (vertical ? box.height ?? 0 : box.width ?? 0);
+        if (boxStart >= end || boxEnd <= start) continue;
+        const cross = vertical ? (box.x ?? 0) - (rep.x ?? 0) : (box.y ?? 0) - (rep.y ?? 0);
+        if (cross > 0) countAfter++;
+        else countBefore++;
+      }
+    }
+    const side = countBefore < countAfter ? before : after;
+    conn.fromSide = side;
+    conn.toSide = side;
+  }
+}
+
 function layoutChildren(parent: NodeDef, allConnections: ConnectionDef[], opts: Required<LayoutOptions>): void {
   const children = getChildBoxes(parent);
   if (!children || children.length === 0) return;
@@ -68,7 +193,7 @@ function layoutChildren(parent: NodeDef, allConnections: ConnectionDef[], opts:
     if (getChildBoxes(child)) {
       layoutChildren(child, allConnections, opts);
     }
-    autoSizeBox(child, opts);
+    autoSizeBox(child, opts, portCounts(child.id, allConnections, parent.childDirection === 'vertical'));
   }
 
   // Equalize widths of siblings that are close in size
@@ -80,10 +205,23 @@ function layoutChildren(parent: NodeDef, allConnections: ConnectionDef[], opts:
     c => childIds.has(c.from) && childIds.has(c.to)
   );
 
+  // A title too long for the box wraps onto rows above the children
+  const maxWidth = Math.max(parent.maxWidth ?? opts.maxWidth, 5);
+  const titleWidth = parent.width ?? (parent.title ? Math.min(displayWidth(parent.title) + 6, maxWidth) : 0);
+  // An explicit padding insets the children evenly on every side
+  const padX = parent.paddingX ?? parent.padding;
+  const padY = parent.paddingY ?? parent.padding;
+  const childOpts = {
+    ...opts,
+    padLeft: padX ?? opts.padLeft,
+    padTop: (padY ?? opts.padTop) + titleRows(parent, titleWidth),
+  };
+
+  let hasBackEdges = false;
   if (parent.childDirection === 'vertical') {
-    layoutVertical(children, intraConns, opts);
+    layoutVertical(children, intraConns, childOpts, parent.reverse ?? false);
   } else {
-    layoutHorizontal(children, intraConns, opts);
+    hasBackEdges = layoutHorizontal(children, intraConns, childOpts, parent.reverse ?? false);
   }
 
   // Auto-size parent to wrap children
@@ -95,17 +233,17 @@ function layoutChildren(parent: NodeDef, allConnections: ConnectionDef[], opts:
       maxRight = Math.max(maxRight, (c.x ?? 0) + (c.width ?? 0) + extra);
       maxChildW = Math.max(maxChildW, c.width ?? 0);
     }
-    let minWidth = maxRight + 4;
+    let minWidth = maxRight + 2 + (padX ?? 2);
     if (parent.childDirection === 'vertical') {
       for (const conn of intraConns) {
         if (conn.label) {
-          const needed = Math.ceil(maxChildW / 2) + conn.label.length + 8;
+          const needed = Math.ceil(maxChildW / 2) + displayWidth(conn.label) + 8;
           minWidth = Math.max(minWidth, needed);
         }
       }
     }
     if (parent.title) {
-      minWidth = Math.max(minWidth, parent.title.length + 6);
+      minWidth = Math.max(minWidth, titleWidth);
     }
     parent.width = minWidth;
   }
@@ -115,53 +253,34 @@ function layoutChildren(parent: NodeDef, allConnections: ConnectionDef[], opts:
       const extra = c.shadow ? 1 : 0;
       maxBottom = Math.max(maxBottom, (c.y ?? 0) + (c.height ?? 0) + extra);
     }
-    parent.height = maxBottom + 2;
+    // Back-edges leave the children's bottoms and run along a row below them
+    parent.height = maxBottom + 2 + (padY ?? 0) + (hasBackEdges ? 2 : 0);
   }
 }
 
-function layoutVertical(children: NodeDef[], intraConns: ConnectionDef[], opts: Required<LayoutOptions>): void {
+function layoutVertical(children: NodeDef[], intraConns: ConnectionDef[], opts: Required<LayoutOptions>, reverse: boolean): void {
   const hasLabeledConn = intraConns.some(c => c.label);
   const hasConn = intraConns.length > 0;
   const vGap = hasLabeledConn ? 3 : hasConn ? 2 : 1;
   let curY = opts.padTop;
-  for (const child of children) {
+  // Reversed, the children stack from the bottom up
+  for (const child of reverse ? [...children].reverse() : children) {
     if (child.x == null) child.x = opts.padLeft;
     if (child.y == null) child.y = curY;
     curY += (child.height ?? 0) + vGap;
   }
 }
 
-function layoutHorizontal(children: NodeDef[], intraConns: ConnectionDef[], opts: Required<LayoutOptions>): void {
-  // Assign layers using longest-path
-  const adj = new Map<string, string[]>();
-  const inDeg = new Map<string, number>();
-  for (const c of children) {
-    if (c.id) {
-      adj.set(c.id, []);
-      inDeg.set(c.id, 0);
-    }
-  }
-  for (const conn of intraConns) {
-    adj.get(conn.from)?.push(conn.to);
-    inDeg.set(conn.to, (inDeg.get(conn.to) || 0) + 1);
-  }
-
-  const layer = new Map<string, number>();
-  const queue = children.filter(c => c.id && inDeg.get(c.id) === 0).map(c => c.id!);
-  for (const id of queue) layer.set(id, 0);
-  let qi = 0;
-  while (qi < queue.length) {
-    const cur = queue[qi++];
-    for (const next of (adj.get(cur) || [])) {
-      const newLayer = (layer.get(cur) ?? 0) + 1;
-      layer.set(next, Math.max(layer.get(next) || 0, newLayer));
-      inDeg.set(next, (inDeg.get(next) || 0) - 1);
-      if (inDeg.get(next) === 0) queue.push(next);
-    }
-  }
+/** Lay children out in layers left to right. Returns true if any connection
+ *  had to be turned into a back-edge. */
+function layoutHorizontal(children: NodeDef[], intraConns: ConnectionDef[], opts: Required<LayoutOptions>, reverse: boolean): boolean {
+  // Assign layers using longest-path, reversing a feedback arc set first
+  const ids = children.filter(c => c.id).map(c => c.id!);
+  const { layer, reversed } = assignLayers(ids, intraConns.map(conn => [conn.from, conn.to]));
   for (const c of children) {
     if (c.id && !layer.has(c.id)) layer.set(c.id, 0);
   }
+  if (reverse) mirrorLayers(layer);
 
   // Group by layer
   const layers: NodeDef[][] = [];
@@ -171,6 +290,11 @@ function layoutHorizontal(children: NodeDef[], intraConns: ConnectionDef[], opts
     layers[l].push(c);
   }
 
+  const byId = new Map(children.filter(c => c.id).map(c => [c.id!, c]));
+  const edges: Array<[NodeDef, NodeDef]> = intraConns.map(conn => [byId.get(conn.from)!, byId.get(conn.to)!]);
+  const ordered = orderLayers(layers, edges);
+  ordered.forEach((group, i) => { layers[i] = group; });
+
   const childHGap = 5;
   const childVGap = 2;
   const layerGaps = computeLayerGaps(layers, intraConns, childHGap);
@@ -180,19 +304,33 @@ function layoutHorizontal(children: NodeDef[], intraConns: ConnectionDef[], opts
     const group = layers[i];
     const gap = layerGaps[i] || childHGap;
     if (!group) { curX += gap; continue; }
-    let curY = opts.padTop;
     let maxW = 0;
     for (const child of group) {
       if (child.x == null) child.x = curX;
-      if (child.y == null) child.y = curY;
-      curY += (child.height ?? 0) + childVGap;
       maxW = Math.max(maxW, child.width ?? 0);
     }
     curX += maxW + gap;
   }
+
+  const pins = new Map(children.filter(c => c.y != null).map(c => [c, c.y!]));
+  const ys = assignCoordinates(layers, edges, {
+    size: c => c.height ?? 0,
+    gap: () => childVGap,
+    origin: opts.padTop,
+    pinned: pins,
+  });
+  for (const [child, y] of ys) child.y = y;
+
+  const backEdges = new Map<ConnectionDef, [NodeDef, NodeDef]>();
+  for (const i of reversed) {
+    const conn = intraConns[i];
+    backEdges.set(conn, [byId.get(conn.from)!, byId.get(conn.to)!]);
+  }
+  routeBackEdges(backEdges, children, false);
+  return backEdges.size > 0;
 }
 
-function autoSizeCanvas(diagram: NodeDef): void {
+function autoSizeCanvas(diagram: NodeDef, extraW = 0, extraH = 0): void {
   const children = getChildBoxes(diagram) || [];
   let maxX = 0;
   let maxY = 0;
@@ -202,27 +340,8 @@ function autoSizeCanvas(diagram: NodeDef): void {
     maxX = Math.max(maxX, (box.x || 0) + (box.width || 0) + shadowW);
     maxY = Math.max(maxY, (box.y || 0) + (box.height || 0) + shadowH);
   }
-  if (diagram.width == null) diagram.width = maxX + 2;
-  if (diagram.height == null) diagram.height = maxY + 1;
-}
-
-function getMedianPosition(
-  id: string,
-  connections: ConnectionDef[],
-  prevOrder: Map<string, number>,
-  childToParent: Map<string, string>,
-): number {
-  const positions: number[] = [];
-  for (const conn of connections) {
-    const fromTop = prevOrder.has(conn.from) ? conn.from : childToParent.get(conn.from);
-    const toTop = prevOrder.has(conn.to) ? conn.to : childToParent.get(conn.to);
-    if (toTop === id && fromTop && prevOrder.has(fromTop)) {
-      positions.push(prevOrder.get(fromTop)!);
-    }
-  }
-  if (positions.length === 0) return Infinity;
-  positions.sort((a, b) => a - b);
-  return positions[Math.floor(positions.length / 2)];
+  if (diagram.width == null) diagram.width = maxX + 2 + extraW;
+  if (diagram.height == null) diagram.height = maxY + 1 + extraH;
 }
 
 export function autoLayout(diagram: NodeDef, options?: LayoutOptions): NodeDef {
@@ -244,7 +363,7 @@ export function autoLayout(diagram: NodeDef, options?: LayoutOptions): NodeDef {
     if (getChildBoxes(box)) {
       layoutChildren(box, clonedConns, opts);
     }
-    autoSizeBox(box, opts);
+    autoSizeBox(box, opts, portCounts(box.id, clonedConns, cloned.childDirection === 'vertical'));
   }
 
   // If all boxes already have x/y, just auto-size canvas
@@ -267,51 +386,27 @@ export function autoLayout(diagram: NodeDef, options?: LayoutOptions): NodeDef {
 
   // Build top-level adjacency from connections
   const topAdj = new Map<string, Set<string>>();
-  const topInDeg = new Map<string, number>();
   for (const b of clonedChildren) {
-    if (b.id) {
-      topAdj.set(b.id, new Set());
-      topInDeg.set(b.id, 0);
-    }
+    if (b.id) topAdj.set(b.id, new Set());
   }
   for (const conn of clonedConns) {
     const fromTop = topIds.has(conn.from) ? conn.from : childToParent.get(conn.from);
     const toTop = topIds.has(conn.to) ? conn.to : childToParent.get(conn.to);
-    if (fromTop && toTop && fromTop !== toTop) {
-      if (!topAdj.get(fromTop)?.has(toTop)) {
-        topAdj.get(fromTop)?.add(toTop);
-        topInDeg.set(toTop, (topInDeg.get(toTop) || 0) + 1);
-      }
-    }
+    if (fromTop && toTop && fromTop !== toTop) topAdj.get(fromTop)?.add(toTop);
   }
 
-  // Longest-path layering
-  const layer = new Map<string, number>();
-  const queue = clonedChildren.filter(b => b.id && topInDeg.get(b.id) === 0).map(b => b.id!);
-  for (const id of queue) layer.set(id, 0);
-  let qi = 0;
-  while (qi < queue.length || layer.size < clonedChildren.length) {
-    if (qi >= queue.length && layer.size < clonedChildren.length) {
-      let best: string | null = null;
-      let bestDeg = Infinity;
-      for (const b of clonedChildren) {
-        if (b.id && !layer.has(b.id) && (topInDeg.get(b.id) ?? 0) < bestDeg) {
-          best = b.id;
-          bestDeg = topInDeg.get(b.id) ?? 0;
-        }
-      }
-      if (!best) break;
-      layer.set(best, 0);
-      queue.push(best);
-    }
-    const cur = queue[qi++];
-    for (const next of (topAdj.get(cur) || [])) {
-      const newLayer = (layer.get(cur) ?? 0) + 1;
-      layer.set(next, Math.max(layer.get(next) || 0, newLayer));
-      topInDeg.set(next, (topInDeg.get(next) || 0) - 1);
-      if (topInDeg.get(next) === 0) queue.push(next);
-    }
+  // Longest-path layering, reversing a feedback arc set first
+  const topEdges: Array<[string, string]> = [];
+  for (const [from, targets] of topAdj) {
+    for (const to of targets) topEdges.push([from, to]);
+  }
+  const { layer, reversed } = assignLayers([...topAdj.keys()], topEdges);
+  for (const b of clonedChildren) {
+    if (b.id && !layer.has(b.id)) layer.set(b.id, 0);
   }
+  const reversedPairs = new Set([...reversed].map(i => topEdges[i].join('->')));
+
+  if (cloned.reverse) mirrorLayers(layer);
 
   // Group into layers
   const layers: NodeDef[][] = [];
@@ -381,21 +476,18 @@ export function autoLayout(diagram: NodeDef, options?: LayoutOptions): NodeDef {
     }
   }
 
-  // Step 3: Order within layers by median connection position
-  for (let i = 1; i < layers.length; i++) {
-    if (!layers[i] || layers[i].length <= 1) continue;
-    const prevLayer = layers[i - 1] || [];
-    const prevOrder = new Map(prevLayer.map((b, idx) => [b.id!, idx]));
-    layers[i].sort((a, b) => {
-      const aMedian = getMedianPosition(a.id!, clonedConns, prevOrder, childToParent);
-      const bMedian = getMedianPosition(b.id!, clonedConns, prevOrder, childToParent);
-      return aMedian - bMedian;
-    });
-  }
+  // Step 3: Reorder layers to reduce connection crossings
+  const topById = new Map(clonedChildren.filter(b => b.id).map(b => [b.id!, b]));
+  const boxEdges = topEdges.map(([from, to]): [NodeDef, NodeDef] => [topById.get(from)!, topById.get(to)!]);
+  const ordered = orderLayers(layers, boxEdges);
+  ordered.forEach((group, i) => { layers[i] = group; });
 
-  // Step 4: Assign coordinates
-  let curX = 0;
-  const columnHeights: number[] = [];
+  // Step 4: Assign coordinates. Layers advance along the main axis (x when
+  // flowing horizontally, y when vertical); boxes are placed across it.
+  const vertical = cloned.childDirection === 'vertical';
+  const layerGap = vertical ? opts.vGap + 1 : opts.defaultHGap;
+  const crossGap = vertical ? opts.defaultHGap : opts.vGap;
+  let curMain = 0;
 
   // Build top-level connection list for gap computation
   const topConns = clonedConns.map(conn => {
@@ -404,93 +496,72 @@ export function autoLayout(diagram: NodeDef, options?: LayoutOptions): NodeDef {
     return { from: fromTop!, to: toTop!, label: conn.label, fromSide: conn.fromSide, toSide: conn.toSide };
   }).filter(c => c.from && c.to && c.from !== c.to);
 
-  const layerGaps = computeLayerGaps(layers, topConns, opts.defaultHGap);
+  const layerGaps = computeLayerGaps(layers, topConns, layerGap, vertical);
 
   for (let i = 0; i < layers.length; i++) {
     const group = layers[i];
-    const gap = layerGaps[i] || opts.defaultHGap;
-    if (!group) { curX += gap; continue; }
-    let curY = 1; // leave room for labels at top
-    let maxW = 0;
+    const gap = layerGaps[i] || layerGap;
+    if (!group) { curMain += gap; continue; }
+    let maxMain = 0;
     for (const box of group) {
-      if (box.x == null) box.x = curX;
-      if (box.y == null) box.y = curY;
-      const shadowH = box.shadow ? 1 : 0;
-      curY += (box.height ?? 0) + shadowH + opts.vGap;
-      const shadowW = box.shadow ? 2 : 0;
-      maxW = Math.max(maxW, (box.width ?? 0) + shadowW);
-    }
-    columnHeights.push(curY - opts.vGap);
-    curX += maxW + gap;
-  }
-
-  // Vertically center columns relative to tallest
-  const maxHeight = Math.max(...columnHeights);
-  let layerIdx = 0;
-  for (const group of layers) {
-    if (!group) { layerIdx++; continue; }
-    const offset = Math.floor((maxHeight - columnHeights[layerIdx]) / 2);
-    if (offset > 0) {
-      for (const box of group) {
-        box.y = (box.y ?? 0) + offset;
+      if (vertical) {
+        if (box.y == null) box.y = curMain;
+        maxMain = Math.max(maxMain, (box.height ?? 0) + (box.shadow ? 1 : 0));
+      } else {
+        if (box.x == null) box.x = curMain;
+        maxMain = Math.max(maxMain, (box.width ?? 0) + (box.shadow ? 2 : 0));
       }
     }
-    layerIdx++;
-  }
-
-  // Step 5: Align single-box columns with their cross-level connection targets
-  // When a top-level box connects to a nested child inside another top-level box,
-  // shift the single box so its vertical center matches the nested child's center.
-  const boxToLayer = new Map<string, number>();
-  for (let i = 0; i < layers.length; i++) {
-    if (!layers[i]) continue;
-    for (const box of layers[i]) {
-      if (box.id) boxToLayer.set(box.id, i);
-    }
+    curMain += maxMain + gap;
   }
 
+  // Across the axis, line connected boxes up so their arrows run straight,
+  // starting one cell in to leave room for labels
+  const crossPins = new Map<NodeDef, number>();
+  for (const box of clonedChildren) {
+    const pin = vertical ? box.x : box.y;
+    if (pin != null) crossPins.set(box, pin);
+  }
+  // An arrow from a nested child attaches beside that child, not at the
+  // middle of its container
+  const edgeEnds = topEdges.map(([fromTop, toTop]) => clonedConns.find(conn =>
+    (topIds.has(conn.from) ? conn.from : childToParent.get(conn.from)) === fromTop &&
+    (topIds.has(conn.to) ? conn.to : childToParent.get(conn.to)) === toTop)!);
+  const crossSize = (box: NodeDef) => (vertical ? box.width : box.height) ?? 0;
+  const cross = assignCoordinates(layers, boxEdges, {
+    size: crossSize,
+    anchor: (box, edge) => {
+      const conn = edgeEnds[edge];
+      const endId = box.id === boxEdges[edge][0].id ? conn.from : conn.to;
+      const nested = endId !== box.id ? getChildBoxes(box)?.find(c => c.id === endId) : undefined;
+      if (!nested) return Math.floor(crossSize(box) / 2);
+      return 1 + ((vertical ? nested.x : nested.y) ?? 0) + Math.floor(crossSize(nested) / 2);
+    },
+    gap: box => (box.shadow ? (vertical ? 2 : 1) : 0) + crossGap,
+    origin: 1,
+    pinned: crossPins,
+  });
+  for (const [box, pos] of cross) {
+    if (vertical) box.x = pos;
+    else box.y = pos;
+  }
+
+  // Step 5: Route back-edges around the layers
+  const backEdges = new Map<ConnectionDef, [NodeDef, NodeDef]>();
   for (const conn of clonedConns) {
-    // Find the top-level box for each end
     const fromTop = topIds.has(conn.from) ? conn.from : childToParent.get(conn.from);
     const toTop = topIds.has(conn.to) ? conn.to : childToParent.get(conn.to);
-    if (!fromTop || !toTop || fromTop === toTop) continue;
-
-    // Check if one end is a nested child and the other is a top-level box
-    const fromIsNested = !topIds.has(conn.from);
-    const toIsNested = !topIds.has(conn.to);
-    if (!fromIsNested && !toIsNested) continue;
-
-    // The top-level box that we want to shift (the non-nested end)
-    const shiftId = fromIsNested ? conn.to : conn.from;
-    const nestedId = fromIsNested ? conn.from : conn.to;
-    const nestedParentId = fromIsNested ? fromTop : toTop;
-
-    // Only shift if the box is alone in its layer
-    const shiftLayer = boxToLayer.get(shiftId);
-    if (shiftLayer == null) continue;
-    if (layers[shiftLayer] && layers[shiftLayer].length > 1) continue;
-
-    const shiftBox = clonedChildren.find(b => b.id === shiftId);
-    const parentBox = clonedChildren.find(b => b.id === nestedParentId);
-    if (!shiftBox || !parentBox) continue;
-
-    // Find the nested child inside the parent
-    const parentChildren = getChildBoxes(parentBox);
-    const nestedChild = parentChildren?.find(c => c.id === nestedId);
-    if (!nestedChild) continue;
-
-    // Calculate the nested child's absolute vertical center
-    // parentBox.y + 1 (border) + nestedChild.y + floor(nestedChild.height / 2)
-    const nestedCenterY = (parentBox.y ?? 0) + 1 + (nestedChild.y ?? 0) + Math.floor((nestedChild.height ?? 0) / 2);
-    const desiredY = nestedCenterY - Math.floor((shiftBox.height ?? 0) / 2);
-
-    if (desiredY >= 0) {
-      shiftBox.y = desiredY;
+    if (fromTop && toTop && reversedPairs.has(`${fromTop}->${toTop}`)) {
+      backEdges.set(conn, [topById.get(fromTop)!, topById.get(toTop)!]);
     }
   }
+  routeBackEdges(backEdges, clonedChildren, vertical);
 
-  // Step 6: Auto-size canvas
-  autoSizeCanvas(cloned);
+  // Step 6: Auto-size canvas, with room for the lane back-edges run in (and,
+  // in a vertical flow, for their labels beside it)
+  const backLabel = Math.max(0, ...[...backEdges.keys()].map(c => c.label ? displayWidth(c.label) + 2 : 0));
+  const hasBackEdges = backEdges.size > 0;
+  autoSizeCanvas(cloned, hasBackEdges && vertical ? backLabel : 0, hasBackEdges && !vertical ? 1 : 0);
 
   return cloned;
 }
@@ -1,6 +1,8 @@
-import type { NodeDef, ConnectionDef, BorderStyle, Side } from '../schema.js';
-import type { FlowchartAST, FlowchartSubgraph, FlowchartNode, FlowchartEdge, NodeShape, FlowchartDirection } from './flowchart.js';
-import type { SequenceAST } from './sequence.js';
+import type { NodeDef, ConnectionDef, BorderStyle, LineStyle, MarkerKind, Side, StyleRule } from '../schema.js';
+import type { FlowchartAST, FlowchartSubgraph, FlowchartNode, FlowchartEdge, NodeShape, FlowchartDirection, EdgeStyle, EdgeMarker } from './flowchart.js';
+import type { SequenceAST, MessageStyle } from './sequence.js';
+import { displayWidth } from '../text-width.js';
+import { isColor } from '../color.js';
 
 const validSides = new Set<string>(['left', 'right', 'top', 'bottom']);
 
@@ -17,6 +19,47 @@ const shapeToBorder: Record<NodeShape, BorderStyle> = {
   diamond: 'dashed',
 };
 
+// ── Edge style → line style mapping ────────────────────────────────────────
+
+const edgeStyleToLineStyle: Record<EdgeStyle, LineStyle> = {
+  solid: 'solid',
+  dotted: 'dotted',
+  thick: 'bold',
+};
+
+const edgeMarkerToMarkerKind: Record<EdgeMarker, MarkerKind> = {
+  arrow: 'triangle',
+  cross: 'cross',
+  circle: 'circle',
+};
+
+const messageStyleToLineStyle: Record<MessageStyle, LineStyle> = {
+  solid: 'solid',
+  dashed: 'dashed',
+};
+
+// ── classDef → style rule mapping ──────────────────────────────────────────
+
+/**
+ * The parts of a Mermaid `classDef` a text diagram can show: fill, stroke
+ * and text colours (when they're colours we know), dashes, and a stroke
+ * width of 2 or more as bold. Anything else is dropped.
+ */
+function classDefToStyleRule(props: Record<string, string>): StyleRule {
+  const rule: StyleRule = {};
+  if (props.fill && isColor(props.fill)) rule.background = props.fill;
+  if (props.stroke && isColor(props.stroke)) rule.borderColor = props.stroke;
+  if (props.color && isColor(props.color)) rule.textColor = props.color;
+  if (props['stroke-dasharray']) {
+    rule.border = 'dashed';
+    rule.style = 'dashed';
+  } else if (parseFloat(props['stroke-width']) >= 2) {
+    rule.border = 'bold';
+    rule.style = 'bold';
+  }
+  return rule;
+}
+
 // ── Direction → childDirection mapping ─────────────────────────────────────
 
 function directionToChildDirection(dir: FlowchartDirection): 'horizontal' | 'vertical' {
@@ -28,16 +71,27 @@ function isReversed(dir: FlowchartDirection): boolean {
   return dir === 'RL' || dir === 'BT';
 }
 
+/** Layered layout runs bottom-to-top for BT; RL keeps the left-to-right flow. */
+function isBottomToTop(dir: FlowchartDirection): boolean {
+  return dir === 'BT';
+}
+
 // ── Flowchart → NodeDef ────────────────────────────────────────────────────
 
-function flowchartNodeToNodeDef(node: FlowchartNode): NodeDef {
+/** Whether any of a node's classes sets its border, which then wins over its shape's. */
+function classSetsBorder(classes: string[] | undefined, styles: Record<string, StyleRule>): boolean {
+  return classes?.some(name => styles[name]?.border) ?? false;
+}
+
+function flowchartNodeToNodeDef(node: FlowchartNode, styles: Record<string, StyleRule>): NodeDef {
   const lines = node.text.split('\n');
   const hasShadow = node.classes?.includes('shadow') ?? false;
   return {
     id: node.id,
     children: lines.length === 1 ? lines[0] : lines,
-    border: shapeToBorder[node.shape],
+    ...(classSetsBorder(node.classes, styles) ? {} : { border: shapeToBorder[node.shape] }),
     ...(hasShadow ? { shadow: true } : {}),
+    ...(node.classes ? { classes: node.classes } : {}),
   };
 }
 
@@ -53,8 +107,18 @@ function getSubgraphNodeIds(sg: FlowchartSubgraph): Set<string> {
 function edgeToConnection(edge: FlowchartEdge): ConnectionDef {
   const conn: ConnectionDef = { from: edge.from, to: edge.to };
   if (edge.label) conn.label = edge.label;
+  if (edge.style !== 'solid') conn.style = edgeStyleToLineStyle[edge.style];
+  if (edge.tailMarker) {
+    conn.arrow = edge.hasArrow ? 'both' : 'start';
+    if (edge.tailMarker !== 'arrow') conn.tail = edgeMarkerToMarkerKind[edge.tailMarker];
+  } else if (!edge.hasArrow) {
+    conn.arrow = 'none';
+  }
+  if (edge.headMarker) conn.head = edgeMarkerToMarkerKind[edge.headMarker];
   if (edge.fromSide && validSides.has(edge.fromSide)) conn.fromSide = edge.fromSide as Side;
   if (edge.toSide && validSides.has(edge.toSide)) conn.toSide = edge.toSide as Side;
+  if (edge.fromPort != null) conn.fromPort = edge.fromPort;
+  if (edge.toPort != null) conn.toPort = edge.toPort;
   return conn;
 }
 
@@ -62,16 +126,17 @@ function convertSubgraph(
   sg: FlowchartSubgraph,
   direction: FlowchartDirection,
   allEdges: FlowchartEdge[],
+  styles: Record<string, StyleRule>,
 ): NodeDef {
   const nodeIds = getSubgraphNodeIds(sg);
   const hasShadow = sg.classes?.includes('shadow') ?? false;
 
   // Convert child nodes
-  const children: NodeDef[] = sg.nodes.map(flowchartNodeToNodeDef);
+  const children: NodeDef[] = sg.nodes.map(node => flowchartNodeToNodeDef(node, styles));
 
   // Convert nested subgraphs
   for (const childSg of sg.subgraphs) {
-    children.push(convertSubgraph(childSg, direction, allEdges));
+    children.push(convertSubgraph(childSg, direction, allEdges, styles));
   }
 
   // Find intra-subgraph connections (both endpoints in this subgraph)
@@ -82,20 +147,26 @@ function convertSubgraph(
     }
   }
 
-  const reversed = isReversed(direction);
+  // A bottom-to-top subgraph is stacked upwards by the layout itself
+  const reversed = isReversed(direction) && !isBottomToTop(direction);
 
   return {
     id: sg.id,
     title: sg.title,
-    border: 'double',
+    ...(classSetsBorder(sg.classes, styles) ? {} : { border: 'double' }),
     ...(hasShadow ? { shadow: true } : {}),
+    ...(sg.classes ? { classes: sg.classes } : {}),
     childDirection: directionToChildDirection(direction),
+    ...(isBottomToTop(direction) ? { reverse: true } : {}),
     children: reversed ? children.reverse() : children,
     ...(connections.length > 0 ? { connections } : {}),
   };
 }
 
 export function flowchartToNodeDef(ast: FlowchartAST): NodeDef {
+  const styles = Object.fromEntries(
+    Object.entries(ast.classDefs ?? {}).map(([name, props]) => [name, classDefToStyleRule(props)]),
+  );
   const childDirection = directionToChildDirection(ast.direction);
   const reversed = isReversed(ast.direction);
 
@@ -123,11 +194,11 @@ export function flowchartToNodeDef(ast: FlowchartAST): NodeDef {
   // Top-level nodes (not in any subgraph)
   const topLevelNodes = ast.nodes
     .filter(n => !subgraphNodeIds.has(n.id))
-    .map(flowchartNodeToNodeDef);
+    .map(node => flowchartNodeToNodeDef(node, styles));
 
   // Convert subgraphs
   const subgraphDefs = ast.subgraphs.map(sg =>
-    convertSubgraph(sg, ast.direction, ast.edges)
+    convertSubgraph(sg, ast.direction, ast.edges, styles)
   );
 
   const children = [...topLevelNodes, ...subgraphDefs];
@@ -139,8 +210,10 @@ export function flowchartToNodeDef(ast: FlowchartAST): NodeDef {
 
   return {
     childDirection,
+    ...(isBottomToTop(ast.direction) ? { reverse: true } : {}),
     children: reversed ? children.reverse() : children,
     ...(connections.length > 0 ? { connections } : {}),
+    ...(Object.keys(styles).length > 0 ? { styles } : {}),
   };
 }
 
@@ -162,15 +235,15 @@ export function sequenceToNodeDef(ast: SequenceAST): NodeDef {
 
   // Compute sizing
   const participantNames = ast.participants.map(p => p.alias || p.id);
-  const maxNameLen = Math.max(...participantNames.map(n => n.length), 3);
+  const maxNameLen = Math.max(...participantNames.map(n => displayWidth(n)), 3);
   const innerW = maxNameLen + 2; // padding inside step box
   // Column must fit: border(1) + pad(2) + innerW + pad(2) + border(1)
   // and also the title: border(1) + "── " + title + " ──" + border(1)
-  const maxTitleW = Math.max(...participantNames.map(n => n.length + 6));
+  const maxTitleW = Math.max(...participantNames.map(n => displayWidth(n) + 6));
   const colW = Math.max(innerW + 6, maxTitleW);
   const stepH = 3;
 
-  const maxLabel = Math.max(...ast.messages.map(m => m.label?.length ?? 0), 0);
+  const maxLabel = Math.max(...ast.messages.map(m => (m.label ? displayWidth(m.label) : 0)), 0);
   const gap = Math.max(maxLabel + 6, 8); // enough room for label + arrow dashes
 
   // Build participant index for position lookup
@@ -200,6 +273,8 @@ export function sequenceToNodeDef(ast: SequenceAST): NodeDef {
     from: `${m.from}_${i}`,
     to: `${m.to}_${i}`,
     ...(m.label ? { label: m.label } : {}),
+    ...(m.style !== 'solid' ? { style: messageStyleToLineStyle[m.style] } : {}),
+    ...(m.arrow === 'cross' ? { head: 'cross' as const } : {}),
   }));
 
   // Compute total dimensions
@@ -21,6 +21,7 @@ import {
 export type FlowchartDirection = 'LR' | 'RL' | 'TD' | 'TB' | 'BT';
 export type NodeShape = 'rect' | 'rounded' | 'stadium' | 'subroutine' | 'cylinder' | 'circle' | 'diamond' | 'hexagon';
 export type EdgeStyle = 'solid' | 'dotted' | 'thick';
+export type EdgeMarker = 'arrow' | 'cross' | 'circle';
 
 export interface FlowchartNode {
   id: string;
@@ -34,9 +35,16 @@ export interface FlowchartEdge {
   to: string;
   label?: string;
   style: EdgeStyle;
+  /** True when the edge has a marker at its target end (`-->`, `--o`, `--x`) */
   hasArrow: boolean;
+  /** Marker at the target end, when it isn't a plain arrowhead */
+  headMarker?: Exclude<EdgeMarker, 'arrow'>;
+  /** Marker at the source end (`<-->`, `o--o`, `x--x`) */
+  tailMarker?: EdgeMarker;
   fromSide?: string;
   toSide?: string;
+  fromPort?: number;
+  toPort?: number;
 }
 
 export interface FlowchartSubgraph {
@@ -53,6 +61,8 @@ export interface FlowchartAST {
   nodes: FlowchartNode[];
   edges: FlowchartEdge[];
   subgraphs: FlowchartSubgraph[];
+  /** `classDef` statements: CSS-like properties by class name */
+  classDefs?: Record<string, Record<string, string>>;
 }
 
 // ── Lexer ──────────────────────────────────────────────────────────────────
@@ -70,12 +80,47 @@ function parseBrContent(text: string): string {
   return text.replace(/<br\s*\/?>/gi, '\n');
 }
 
+interface RouteDirective {
+  from: string;
+  to: string;
+  fromSide?: string;
+  toSide?: string;
+  fromPort?: number;
+  toPort?: number;
+}
+
 interface ParseContext {
   nodes: Map<string, FlowchartNode>;
   edges: FlowchartEdge[];
   subgraphs: FlowchartSubgraph[];
   subgraphStack: FlowchartSubgraph[];
-  routeDirectives: Array<{ from: string; to: string; fromSide?: string; toSide?: string }>;
+  routeDirectives: RouteDirective[];
+  classDefs: Map<string, Record<string, string>>;
+  // `class` statements, applied once every node and subgraph is known
+  classAssignments: Array<{ ids: string[]; classNames: string[] }>;
+}
+
+/** Parse `fill:#f9f,stroke-width:2px` into its properties. */
+function parseStyleProps(s: string): Record<string, string> {
+  const props: Record<string, string> = {};
+  for (const part of s.split(',')) {
+    const colon = part.indexOf(':');
+    if (colon > 0) props[part.slice(0, colon).trim()] = part.slice(colon + 1).trim();
+  }
+  return props;
+}
+
+function addClass(target: { classes?: string[] }, className: string): void {
+  if (!target.classes) target.classes = [];
+  if (!target.classes.includes(className)) target.classes.push(className);
+}
+
+function findSubgraph(subgraphs: FlowchartSubgraph[], id: string): FlowchartSubgraph | undefined {
+  for (const sg of subgraphs) {
+    const found = sg.id === id ? sg : findSubgraph(sg.subgraphs, id);
+    if (found) return found;
+  }
+  return undefined;
 }
 
 /** Strip :::class1:::class2 from end of string, return [stripped, classes] */
@@ -104,7 +149,30 @@ const shapePatterns: Array<{ open: string; close: string; shape: NodeShape }> =
 ];
 
 // Edge patterns: order matters (longest first)
-const edgePatterns: Array<{ pattern: string; style: EdgeStyle; hasArrow: boolean }> = [
+interface EdgePattern {
+  pattern: string;
+  style: EdgeStyle;
+  hasArrow: boolean;
+  headMarker?: Exclude<EdgeMarker, 'arrow'>;
+  tailMarker?: EdgeMarker;
+}
+
+const edgePatterns: EdgePattern[] = [
+  { pattern: '<-.->', style: 'dotted', hasArrow: true, tailMarker: 'arrow' },
+  { pattern: 'o-.-o', style: 'dotted', hasArrow: true, headMarker: 'circle', tailMarker: 'circle' },
+  { pattern: 'x-.-x', style: 'dotted', hasArrow: true, headMarker: 'cross', tailMarker: 'cross' },
+  { pattern: '<==>', style: 'thick', hasArrow: true, tailMarker: 'arrow' },
+  { pattern: 'o==o', style: 'thick', hasArrow: true, headMarker: 'circle', tailMarker: 'circle' },
+  { pattern: 'x==x', style: 'thick', hasArrow: true, headMarker: 'cross', tailMarker: 'cross' },
+  { pattern: '<-->', style: 'solid', hasArrow: true, tailMarker: 'arrow' },
+  { pattern: 'o--o', style: 'solid', hasArrow: true, headMarker: 'circle', tailMarker: 'circle' },
+  { pattern: 'x--x', style: 'solid', hasArrow: true, headMarker: 'cross', tailMarker: 'cross' },
+  { pattern: '-.-o', style: 'dotted', hasArrow: true, headMarker: 'circle' },
+  { pattern: '-.-x', style: 'dotted', hasArrow: true, headMarker: 'cross' },
+  { pattern: '==o', style: 'thick', hasArrow: true, headMarker: 'circle' },
+  { pattern: '==x', style: 'thick', hasArrow: true, headMarker: 'cross' },
+  { pattern: '--o', style: 'solid', hasArrow: true, headMarker: 'circle' },
+  { pattern: '--x', style: 'solid', hasArrow: true, headMarker: 'cross' },
   { pattern: '==>', style: 'thick', hasArrow: true },
   { pattern: '-.->',style: 'dotted', hasArrow: true },
   { pattern: '-->', style: 'solid', hasArrow: true },
@@ -113,6 +181,17 @@ const edgePatterns: Array<{ pattern: string; style: EdgeStyle; hasArrow: boolean
   { pattern: '---', style: 'solid', hasArrow: false },
 ];
 
+/** Compile an edge pattern. Letter markers (`o`, `x`) must be separated from
+ *  node IDs by whitespace, so `A --o B` is a circle edge but `A --> ox` is not. */
+function edgePatternRegex(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const before = /^[ox]/.test(pattern) ? '(?<=^|\\s)' : '';
+  const after = /[ox]$/.test(pattern) ? '(?=\\s|\\||$)' : '';
+  return new RegExp(before + escaped + after);
+}
+
+const edgeRegexes = edgePatterns.map(ep => ({ ...ep, regex: edgePatternRegex(ep.pattern) }));
+
 function parseNodeDef(segment: string, ctx: ParseContext): string | null {
   const [stripped, classes] = stripClasses(segment.trim());
   const trimmed = stripped.trim();
@@ -143,7 +222,10 @@ function parseNodeDef(segment: string, ctx: ParseContext): string | null {
   // Plain identifier (no shape) — just a node reference
   const id = trimmed;
   if (/^[a-zA-Z_][a-zA-Z0-9_ ]*$/.test(id)) {
-    if (!ctx.nodes.has(id)) {
+    const existing = ctx.nodes.get(id);
+    if (existing) {
+      for (const className of classes) addClass(existing, className);
+    } else {
       const node: FlowchartNode = { id, text: id, shape: 'rect', ...(classes.length > 0 ? { classes } : {}) };
       ctx.nodes.set(id, node);
       const target = ctx.subgraphStack.length > 0
@@ -157,19 +239,17 @@ function parseNodeDef(segment: string, ctx: ParseContext): string | null {
   return null;
 }
 
-function findEdge(line: string): { idx: number; len: number; style: EdgeStyle; hasArrow: boolean } | null {
-  for (const ep of edgePatterns) {
-    // Look for edge not inside brackets/parens
-    let searchFrom = 0;
-    while (true) {
-      const idx = line.indexOf(ep.pattern, searchFrom);
-      if (idx < 0) break;
-      // Make sure it's not part of an InlineLabel pattern "-- text -->"
-      // Check if preceded by "-- " which would be inline label start
-      return { idx, len: ep.pattern.length, style: ep.style, hasArrow: ep.hasArrow };
+function findEdge(line: string): ({ idx: number; len: number } & Omit<EdgePattern, 'pattern'>) | null {
+  // Leftmost edge wins; at the same position the longer pattern (listed first) wins
+  let best: ({ idx: number; len: number } & Omit<EdgePattern, 'pattern'>) | null = null;
+  for (const { pattern, regex, ...info } of edgeRegexes) {
+    const match = regex.exec(line);
+    if (!match) continue;
+    if (!best || match.index < best.idx) {
+      best = { idx: match.index, len: pattern.length, ...info };
     }
   }
-  return null;
+  return best;
 }
 
 function parseEdgeWithLabel(
@@ -207,11 +287,15 @@ function parseLine(rawLine: string, ctx: ParseContext): void {
     const from = routeMatch[1];
     const to = routeMatch[2];
     const props = routeMatch[3];
-    const directive: { from: string; to: string; fromSide?: string; toSide?: string } = { from, to };
+    const directive: RouteDirective = { from, to };
     const fromSideMatch = props.match(/fromSide=(\S+)/);
     if (fromSideMatch) directive.fromSide = fromSideMatch[1];
     const toSideMatch = props.match(/toSide=(\S+)/);
     if (toSideMatch) directive.toSide = toSideMatch[1];
+    const fromPortMatch = props.match(/fromPort=(-?\d+)/);
+    if (fromPortMatch) directive.fromPort = Number(fromPortMatch[1]);
+    const toPortMatch = props.match(/toPort=(-?\d+)/);
+    if (toPortMatch) directive.toPort = Number(toPortMatch[1]);
     ctx.routeDirectives.push(directive);
     return;
   }
@@ -219,6 +303,23 @@ function parseLine(rawLine: string, ctx: ParseContext): void {
   const line = rawLine.replace(/%%.*$/, '').trim();
   if (!line) return;
 
+  // classDef name1,name2 fill:#f9f,stroke:#333
+  const classDefMatch = line.match(/^classDef\s+(\S+)\s+([^;]+);?$/);
+  if (classDefMatch) {
+    const props = parseStyleProps(classDefMatch[2]);
+    for (const name of classDefMatch[1].split(',')) {
+      ctx.classDefs.set(name, { ...ctx.classDefs.get(name), ...props });
+    }
+    return;
+  }
+
+  // class id1,id2 className1,className2
+  const classMatch = line.match(/^class\s+(\S+)\s+([a-zA-Z_][a-zA-Z0-9_]*(?:,[a-zA-Z_][a-zA-Z0-9_]*)*)\s*;?$/);
+  if (classMatch) {
+    ctx.classAssignments.push({ ids: classMatch[1].split(','), classNames: classMatch[2].split(',') });
+    return;
+  }
+
   // Handle subgraph
   if (line.startsWith('subgraph')) {
     const [restRaw, classes] = stripClasses(line.slice('subgraph'.length).trim());
@@ -264,7 +365,7 @@ function parseLine(rawLine: string, ctx: ParseContext): void {
 function parseStatement(stmt: string, ctx: ParseContext): void {
   // Try to parse edges (possibly chained: A --> B --> C)
   const parts: string[] = [];
-  const edgeInfos: Array<{ style: EdgeStyle; hasArrow: boolean; label?: string }> = [];
+  const edgeInfos: Array<Omit<EdgePattern, 'pattern'> & { label?: string }> = [];
 
   let remaining = stmt;
   while (true) {
@@ -273,9 +374,10 @@ function parseStatement(stmt: string, ctx: ParseContext): void {
       parts.push(remaining.trim());
       break;
     }
+    const { idx, len, ...info } = edgeMatch;
 
     // Check for inline label: "-- text -->" before the edge
-    const beforeEdge = remaining.slice(0, edgeMatch.idx);
+    const beforeEdge = remaining.slice(0, idx);
     let leftPart = beforeEdge;
     let label: string | undefined;
 
@@ -288,7 +390,7 @@ function parseStatement(stmt: string, ctx: ParseContext): void {
 
     parts.push(leftPart.trim());
 
-    const afterEdge = edgeMatch.idx + edgeMatch.len;
+    const afterEdge = idx + len;
     const afterStr = remaining.slice(afterEdge);
 
     // Check for pipe label after edge
@@ -297,12 +399,12 @@ function parseStatement(stmt: string, ctx: ParseContext): void {
       if (pipeMatch) {
         label = pipeMatch[1].trim();
         remaining = afterStr.slice(pipeMatch[0].length);
-        edgeInfos.push({ style: edgeMatch.style, hasArrow: edgeMatch.hasArrow, label });
+        edgeInfos.push({ ...info, label });
         continue;
       }
     }
 
-    edgeInfos.push({ style: edgeMatch.style, hasArrow: edgeMatch.hasArrow, label });
+    edgeInfos.push({ ...info, label });
     remaining = afterStr;
   }
 
@@ -323,6 +425,8 @@ function parseStatement(stmt: string, ctx: ParseContext): void {
         to: toId,
         style: edgeInfos[i].style,
         hasArrow: edgeInfos[i].hasArrow,
+        ...(edgeInfos[i].headMarker ? { headMarker: edgeInfos[i].headMarker } : {}),
+        ...(edgeInfos[i].tailMarker ? { tailMarker: edgeInfos[i].tailMarker } : {}),
         ...(edgeInfos[i].label ? { label: edgeInfos[i].label } : {}),
       };
       const target = ctx.subgraphStack.length > 0
@@ -363,6 +467,8 @@ export function parseFlowchart(text: string): FlowchartAST {
     subgraphs: [],
     subgraphStack: [],
     routeDirectives: [],
+    classDefs: new Map(),
+    classAssignments: [],
   };
 
   for (let i = startIdx; i < lines.length; i++) {
@@ -375,14 +481,29 @@ export function parseFlowchart(text: string): FlowchartAST {
       if (edge.from === dir.from && edge.to === dir.to) {
         if (dir.fromSide) edge.fromSide = dir.fromSide;
         if (dir.toSide) edge.toSide = dir.toSide;
+        if (dir.fromPort != null) edge.fromPort = dir.fromPort;
+        if (dir.toPort != null) edge.toPort = dir.toPort;
       }
     }
   }
 
+  for (const { ids, classNames } of ctx.classAssignments) {
+    for (const id of ids) {
+      const target = ctx.nodes.get(id) ?? findSubgraph(ctx.subgraphs, id);
+      if (target) classNames.forEach(className => addClass(target, className));
+    }
+  }
+
+  // As in Mermaid, a `default` class applies to every node
+  if (ctx.classDefs.has('default')) {
+    for (const node of ctx.nodes.values()) node.classes = ['default', ...(node.classes ?? []).filter(c => c !== 'default')];
+  }
+
   return {
     direction,
     nodes: Array.from(ctx.nodes.values()),
     edges: ctx.edges,
     subgraphs: ctx.subgraphs,
+    ...(ctx.classDefs.size > 0 ? { classDefs: Object.fromEntries(ctx.classDefs) } : {}),
   };
 }
@@ -0,0 +1,162 @@
+// Crossing reduction for layered layouts: long edges are split into chains of
+// dummy nodes, then layers are reordered with alternating barycenter sweeps
+// and adjacent-pair transpositions until the crossing count stops improving.
+
+const MAX_SWEEPS = 24;
+
+interface Dummy {
+  dummy: true;
+}
+
+type Slot<T> = T | Dummy;
+
+/** Pairs of edges between two adjacent layers that cross. */
+function countLayerCrossings<T>(
+  upper: Slot<T>[],
+  lower: Slot<T>[],
+  down: Map<Slot<T>, Slot<T>[]>,
+): number {
+  const lowerPos = new Map(lower.map((n, i) => [n, i]));
+  const ends: Array<[number, number]> = [];
+  upper.forEach((n, i) => {
+    for (const m of down.get(n) ?? []) {
+      const j = lowerPos.get(m);
+      if (j != null) ends.push([i, j]);
+    }
+  });
+  let crossings = 0;
+  for (let a = 0; a < ends.length; a++) {
+    for (let b = a + 1; b < ends.length; b++) {
+      const [ua, la] = ends[a];
+      const [ub, lb] = ends[b];
+      if ((ua - ub) * (la - lb) < 0) crossings++;
+    }
+  }
+  return crossings;
+}
+
+function countCrossings<T>(layers: Slot<T>[][], down: Map<Slot<T>, Slot<T>[]>): number {
+  let total = 0;
+  for (let i = 0; i + 1 < layers.length; i++) {
+    total += countLayerCrossings(layers[i], layers[i + 1], down);
+  }
+  return total;
+}
+
+/** Crossings between the edges of `a` and `b` (in that order) toward a fixed layer. */
+function pairCrossings<T>(a: Slot<T>, b: Slot<T>, neighbors: Map<Slot<T>, Slot<T>[]>, pos: Map<Slot<T>, number>): number {
+  let crossings = 0;
+  for (const p of neighbors.get(a) ?? []) {
+    for (const q of neighbors.get(b) ?? []) {
+      if ((pos.get(p) ?? 0) > (pos.get(q) ?? 0)) crossings++;
+    }
+  }
+  return crossings;
+}
+
+/** Sort a layer by the mean position of its neighbours in a fixed layer.
+ *  Nodes without neighbours there keep their current position. */
+function sortByBarycenter<T>(layer: Slot<T>[], fixed: Slot<T>[], neighbors: Map<Slot<T>, Slot<T>[]>): Slot<T>[] {
+  const fixedPos = new Map(fixed.map((n, i) => [n, i]));
+  const keyed = layer.map((n, i) => {
+    const positions = (neighbors.get(n) ?? []).map(m => fixedPos.get(m)).filter((p): p is number => p != null);
+    const key = positions.length > 0
+      ? positions.reduce((sum, p) => sum + p, 0) / positions.length
+      : i;
+    return { n, key };
+  });
+  // Array.prototype.sort is stable, so ties keep their current order
+  keyed.sort((a, b) => a.key - b.key);
+  return keyed.map(k => k.n);
+}
+
+/** Swap adjacent nodes while that lowers crossings with both neighbouring layers. */
+function transpose<T>(
+  layers: Slot<T>[][],
+  down: Map<Slot<T>, Slot<T>[]>,
+  up: Map<Slot<T>, Slot<T>[]>,
+): void {
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < layers.length; i++) {
+      const layer = layers[i];
+      const abovePos = new Map((layers[i - 1] ?? []).map((n, k) => [n, k]));
+      const belowPos = new Map((layers[i + 1] ?? []).map((n, k) => [n, k]));
+      for (let j = 0; j + 1 < layer.length; j++) {
+        const a = layer[j];
+        const b = layer[j + 1];
+        const before = pairCrossings(a, b, up, abovePos) + pairCrossings(a, b, down, belowPos);
+        const after = pairCrossings(b, a, up, abovePos) + pairCrossings(b, a, down, belowPos);
+        if (after < before) {
+          layer[j] = b;
+          layer[j + 1] = a;
+          improved = true;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Reorder the nodes within each layer to reduce edge crossings. Edges spanning
+ * several layers are routed through dummy nodes so they take part in the
+ * ordering; edges within a layer are ignored. Layers come back in their new
+ * order, without the dummies.
+ */
+export function orderLayers<T>(layers: T[][], edges: Array<[T, T]>): T[][] {
+  const layerOf = new Map<Slot<T>, number>();
+  layers.forEach((layer, i) => layer.forEach(n => layerOf.set(n, i)));
+
+  const work: Slot<T>[][] = Array.from(layers, layer => [...(layer ?? [])]);
+  const dummies = new Set<Slot<T>>();
+  const down = new Map<Slot<T>, Slot<T>[]>();
+  const up = new Map<Slot<T>, Slot<T>[]>();
+  const link = (a: Slot<T>, b: Slot<T>) => {
+    if (!down.has(a)) down.set(a, []);
+    if (!up.has(b)) up.set(b, []);
+    down.get(a)!.push(b);
+    up.get(b)!.push(a);
+  };
+
+  for (const [from, to] of edges) {
+    const fromLayer = layerOf.get(from);
+    const toLayer = layerOf.get(to);
+    if (fromLayer == null || toLayer == null || fromLayer === toLayer) continue;
+    // Orient every edge downward; back edges are ordered like forward ones
+    const [top, bottom] = fromLayer < toLayer ? [from, to] : [to, from];
+    const [first, last] = fromLayer < toLayer ? [fromLayer, toLayer] : [toLayer, fromLayer];
+    let prev: Slot<T> = top;
+    for (let l = first + 1; l < last; l++) {
+      const dummy: Dummy = { dummy: true };
+      dummies.add(dummy);
+      work[l].push(dummy);
+      link(prev, dummy);
+      prev = dummy;
+    }
+    link(prev, bottom);
+  }
+
+  let best = work.map(layer => [...layer]);
+  let bestCrossings = countCrossings(work, down);
+
+  for (let sweep = 0; sweep < MAX_SWEEPS && bestCrossings > 0; sweep++) {
+    if (sweep % 2 === 0) {
+      for (let i = 1; i < work.length; i++) work[i] = sortByBarycenter(work[i], work[i - 1], up);
+    } else {
+      for (let i = work.length - 2; i >= 0; i--) work[i] = sortByBarycenter(work[i], work[i + 1], down);
+    }
+    transpose(work, down, up);
+
+    const crossings = countCrossings(work, down);
+    if (crossings < bestCrossings) {
+      bestCrossings = crossings;
+      best = work.map(layer => [...layer]);
+    } else if (sweep > 1) {
+      break;
+    }
+  }
+
+  // Keep gaps in a sparse layer list where they were
+  return best.map((layer, i) => layers[i] && layer.filter((n): n is T => !dummies.has(n)));
+}
@@ -0,0 +1,78 @@
+import type { ConnectionDef, NodeDef, ResolvedBox, Side } from './schema.js';
+import { resolveBox, detectSides } from './geometry.js';
+
+export interface Ports {
+  fromPort: number;
+  toPort: number;
+}
+
+interface PortSlot {
+  conn: ConnectionDef;
+  end: 'from' | 'to';
+  // Position of the far end along this side, used to order slots
+  key: number;
+}
+
+function centerAlong(resolved: ResolvedBox, side: Side): number {
+  return side === 'left' || side === 'right'
+    ? resolved.absY + resolved.box.height / 2
+    : resolved.absX + resolved.box.width / 2;
+}
+
+/** Evenly spaced offsets from the midpoint for `count` ports on a side `size` cells long. */
+export function spreadPorts(count: number, size: number): number[] {
+  if (count <= 1) return [0];
+  const interior = Math.max(size - 2, 1);
+  const mid = Math.floor(size / 2);
+  const offsets: number[] = [];
+  for (let i = 0; i < count; i++) {
+    offsets.push(1 + Math.round((i + 0.5) * interior / count - 0.5) - mid);
+  }
+  return offsets;
+}
+
+/**
+ * Assign a port offset to both ends of every connection, spreading the
+ * connections that share a box side evenly along it. Ports on a side are
+ * ordered by the position of the box at the other end, so neighbouring
+ * connections don't cross. Explicit `fromPort`/`toPort` values are kept
+ * as given and don't take part in the spread.
+ */
+export function assignPorts(connections: ConnectionDef[], boxes: NodeDef[]): Map<ConnectionDef, Ports> {
+  const ports = new Map<ConnectionDef, Ports>();
+  const sides = new Map<string, { resolved: ResolvedBox; side: Side; slots: PortSlot[] }>();
+
+  function addEnd(conn: ConnectionDef, end: 'from' | 'to', resolved: ResolvedBox, side: Side, other: ResolvedBox): void {
+    const sideKey = `${resolved.box.id}:${side}`;
+    let group = sides.get(sideKey);
+    if (!group) {
+      group = { resolved, side, slots: [] };
+      sides.set(sideKey, group);
+    }
+    group.slots.push({ conn, end, key: centerAlong(other, side) });
+  }
+
+  for (const conn of connections) {
+    const fromResolved = resolveBox(conn.from, boxes);
+    const toResolved = resolveBox(conn.to, boxes);
+    if (!fromResolved || !toResolved) continue;
+    ports.set(conn, { fromPort: conn.fromPort ?? 0, toPort: conn.toPort ?? 0 });
+    const { fromSide, toSide } = detectSides(conn, fromResolved, toResolved);
+    if (conn.fromPort == null) addEnd(conn, 'from', fromResolved, fromSide, toResolved);
+    if (conn.toPort == null) addEnd(conn, 'to', toResolved, toSide, fromResolved);
+  }
+
+  for (const { resolved, side, slots } of sides.values()) {
+    if (slots.length < 2) continue;
+    const size = side === 'left' || side === 'right' ? resolved.box.height : resolved.box.width;
+    const ordered = [...slots].sort((a, b) => a.key - b.key);
+    const offsets = spreadPorts(ordered.length, size);
+    ordered.forEach(({ conn, end }, i) => {
+      const assigned = ports.get(conn)!;
+      if (end === 'from') assigned.fromPort = offsets[i];
+      else assigned.toPort = offsets[i];
+    });
+  }
+
+  return ports;
+}
@@ -1,14 +1,37 @@
-import type { NodeDef, SvgOptions, LayoutOptions } from './schema.js';
+import type { ConnectionDef, ConnectionPath, NodeDef, SvgOptions, RenderOptions, CellAttributes } from './schema.js';
 import { DiagramSchema, getChildBoxes, collectConnections } from './schema.js';
 import { DEFAULT_SVG_OPTIONS } from './constants.js';
 import { Canvas } from './canvas.js';
+import type { CellOwner, CellRun } from './canvas.js';
+import { displayWidth } from './text-width.js';
 import { drawBox } from './draw-box.js';
 import { drawConnection } from './draw-connection.js';
+import { buildObstacles } from './router.js';
+import { assignPorts } from './ports.js';
 import { autoLayout } from './layout.js';
+import { asciiCell } from './charset.js';
+import { applyTheme, resolveTheme, withTheme } from './themes.js';
+import { applyStyles, classNames } from './styles.js';
+import { DiagramError, formatDiagnostic, validate } from './validate.js';
 
-export function render(input: NodeDef, options?: LayoutOptions): string {
-  const parsed = DiagramSchema.parse(input);
-  const diagram = autoLayout(parsed, options);
+/** A laid-out diagram drawn onto a canvas, with the path each connection took. */
+export interface DrawnDiagram {
+  diagram: NodeDef;
+  canvas: Canvas;
+  paths: Array<{ conn: ConnectionDef; path: ConnectionPath }>;
+}
+
+/** Validate, lay out and draw a diagram in the requested character set. */
+export function drawDiagram(input: NodeDef, options?: RenderOptions): DrawnDiagram {
+  if (options?.validate === 'warn' || options?.validate === 'error') {
+    const diagnostics = validate(input, options);
+    if (options.validate === 'error' && diagnostics.length > 0) throw new DiagramError(diagnostics);
+    for (const d of diagnostics) console.warn(formatDiagnostic(d));
+  }
+  // Resolved before parsing, since the theme can define border styles
+  const theme = resolveTheme(options?.theme);
+  const parsed = withTheme(theme, () => DiagramSchema.parse(input));
+  const diagram = autoLayout(applyStyles(parsed), options);
   const { width = 80, height = 20 } = diagram;
   const canvas = new Canvas(width, height);
 
@@ -16,32 +39,161 @@ export function render(input: NodeDef, options?: LayoutOptions): string {
   const connections = collectConnections(diagram);
 
   for (const box of boxes) {
-    drawBox(canvas, box as Parameters<typeof drawBox>[1]);
+    drawBox(canvas, box as Parameters<typeof drawBox>[1], theme);
   }
 
+  // The boxes are the same obstacles to every connection, and ports are
+  // spread over all connections at once
+  const shared = { obstacles: buildObstacles(width, height, boxes), ports: assignPorts(connections, boxes) };
+  const paths: DrawnDiagram['paths'] = [];
   for (const conn of connections) {
-    drawConnection(canvas, conn, boxes, connections);
+    const path = drawConnection(canvas, conn, boxes, connections, shared);
+    if (path) paths.push({ conn, path });
   }
 
-  return canvas.toString();
+  // Drawn with the default Unicode glyphs throughout, since junctions and
+  // routing read glyphs back
+  if (theme) applyTheme(canvas, theme);
+  if (options?.charset === 'ascii') canvas.transliterate((glyph, x, y) => asciiCell(glyph, canvas.getArms(x, y)));
+
+  return { diagram, canvas, paths };
+}
+
+/** Lay out and draw a diagram onto a canvas. */
+export function renderCanvas(input: NodeDef, options?: RenderOptions): Canvas {
+  return drawDiagram(input, options).canvas;
+}
+
+/** Render a diagram as plain text. */
+export function render(input: NodeDef, options?: RenderOptions): string {
+  return renderCanvas(input, options).toString();
+}
+
+/**
+ * Render a diagram for a terminal: text with its colours and attributes as
+ * SGR escape sequences, one per run of identically styled cells.
+ */
+export function renderAnsi(input: NodeDef, options?: RenderOptions): string {
+  return renderCanvas(input, options).toAnsi();
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
 }
 
-export function renderSvg(text: string, options?: SvgOptions): string {
+// Links that are safe to follow from a diagram: http(s), mailto, or relative
+// (no scheme before the first /, ? or #). Anything else, like javascript:,
+// is shown as text instead
+export const SAFE_HREF = /^(?:(?:https?|mailto):|[^:/?#]*(?:[/?#]|$))/i;
+
+/** Inline SVG style for a run's text attributes. */
+export function svgStyle(attrs: CellAttributes): string {
+  const decorations = [attrs.strike && 'line-through', attrs.underline && 'underline'].filter(Boolean);
+  return [
+    decorations.length > 0 && `text-decoration: ${decorations.join(' ')}`,
+    attrs.bold && 'font-weight: bold',
+    attrs.italic && 'font-style: italic',
+    attrs.dim && 'opacity: 0.5',
+  ].filter(Boolean).join('; ');
+}
+
+/** True if a cell owner is a connection rather than a box. */
+export function isConnection(owner: CellOwner): owner is ConnectionDef {
+  return 'from' in owner && 'to' in owner;
+}
+
+/**
+ * Wrap a box's or connection's SVG elements in a `<g>` identifying it:
+ * `data-id` (a connection without an id gets `from->to`, plus `data-from`
+ * and `data-to`), a `node` or `connection` class followed by its own
+ * classes, an optional `<title>` tooltip, and for boxes an `<a>` to a safe `href`.
+ */
+export function svgGroup(owner: CellOwner, elements: string[]): string[] {
+  const connection = isConnection(owner);
+  const id = connection ? owner.id ?? `${owner.from}->${owner.to}` : owner.id;
+  const classes = [connection ? 'connection' : 'node', ...classNames(owner)];
+  const attrs = [
+    id != null && `data-id="${escapeXml(id)}"`,
+    connection && `data-from="${escapeXml(owner.from)}" data-to="${escapeXml(owner.to)}"`,
+    `class="${escapeXml(classes.join(' '))}"`,
+  ].filter(Boolean).join(' ');
+  const href = !connection && owner.href && SAFE_HREF.test(owner.href) ? owner.href : undefined;
+  return [
+    `<g ${attrs}>`,
+    ...(owner.tooltip ? [`  <title>${escapeXml(owner.tooltip)}</title>`] : []),
+    ...(href ? [`  <a href="${escapeXml(href)}">`, ...elements.map(el => `    ${el}`), '  </a>'] : elements.map(el => `  ${el}`)),
+    '</g>',
+  ];
+}
+
+/** Row runs as `<text>` content: plain text, with styled runs in `<tspan>`s. */
+function textContent(runs: CellRun[]): string {
+  return runs.map(run => {
+    const escaped = escapeXml(run.text);
+    const style = run.attrs ? svgStyle(run.attrs) : '';
+    return style ? `<tspan style="${style}">${escaped}</tspan>` : escaped;
+  }).join('');
+}
+
+/**
+ * Render text output as an SVG image. Takes either the string from `render`
+ * (strike and underline marks in it become text decorations) or a canvas.
+ * A canvas from `renderCanvas` knows which box or connection drew each
+ * cell, so their glyphs are grouped with `svgGroup`.
+ */
+export function renderSvg(input: string | Canvas, options?: SvgOptions): string {
   const opts = { ...DEFAULT_SVG_OPTIONS, ...options };
-  const lines = text.split('\n');
-  const maxLen = Math.max(...lines.map(l => l.length));
+  const canvas = typeof input === 'string' ? Canvas.fromText(input) : input;
+  const indent = canvas.indent();
 
-  const width = Math.ceil(maxLen * opts.charWidth) + opts.padding * 2;
-  const height = lines.length * opts.lineHeight + opts.padding * 2;
+  const width = Math.ceil(canvas.contentWidth() * opts.charWidth) + opts.padding * 2;
+  const height = canvas.height * opts.lineHeight + opts.padding * 2;
 
-  const textEls = lines.map((line, i) => {
-    const escaped = line
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;');
+  const textEls: string[] = [];
+  const groups = new Map<CellOwner, string[]>();
+  canvas.grid.forEach((_, i) => {
     const y = opts.padding + (i + 1) * opts.lineHeight;
-    return `  <text x="${opts.padding}" y="${y}" xml:space="preserve">${escaped}</text>`;
-  }).join('\n');
+    const runs = canvas.runs(i, indent, { byOwner: true });
+    if (!runs.some(run => run.owner)) {
+      textEls.push(`<text x="${opts.padding}" y="${y}" xml:space="preserve">${textContent(runs)}</text>`);
+      return;
+    }
+    // Split the row into stretches per owner. Unowned blanks between two
+    // cells of the same owner (a box's empty interior) stay in its stretch.
+    const stretches: Array<{ owner?: CellOwner; col: number; runs: CellRun[] }> = [];
+    let gap: CellRun[] = [];
+    let col = 0;
+    for (const run of runs) {
+      const runWidth = displayWidth(run.text);
+      if (!run.owner && !run.text.trim()) {
+        gap.push(run);
+        col += runWidth;
+        continue;
+      }
+      const last = stretches[stretches.length - 1];
+      if (last && last.owner === run.owner) {
+        last.runs.push(...gap, run);
+      } else {
+        stretches.push({ owner: run.owner, col, runs: [run] });
+      }
+      gap = [];
+      col += runWidth;
+    }
+    for (const stretch of stretches) {
+      if (stretch.runs.every(run => !run.text.trim())) continue;
+      const x = Math.round((opts.padding + stretch.col * opts.charWidth) * 100) / 100;
+      const el = `<text x="${x}" y="${y}" xml:space="preserve">${textContent(stretch.runs)}</text>`;
+      if (!stretch.owner) textEls.push(el);
+      else groups.set(stretch.owner, [...groups.get(stretch.owner) ?? [], el]);
+    }
+  });
+  const body = [...textEls, ...[...groups].flatMap(([owner, els]) => svgGroup(owner, els))]
+    .map(line => `  ${line}`)
+    .join('\n');
 
   return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="${width}" height="${height}">
   <style>
@@ -57,6 +209,6 @@ export function renderSvg(text: string, options?: SvgOptions): string {
     }
   </style>
   <rect class="bg" width="100%" height="100%" fill="${opts.lightBg}" rx="${opts.borderRadius}" />
-${textEls}
+${body}
 </svg>`;
 }
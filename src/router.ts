@@ -0,0 +1,357 @@
+import type { NodeDef, Point, Side } from './schema.js';
+import { getChildBoxes } from './schema.js';
+import { Canvas } from './canvas.js';
+import { SHADOW_CHAR } from './constants.js';
+import { wrapTitle } from './wrap.js';
+import { displayWidth } from './text-width.js';
+
+// Cell states in the obstacle map
+const NEAR = 1; // one-cell clearance ring around a blocked box (its anchors live here)
+const CROSSABLE = 2; // border of a container the connection has to leave or enter
+const BLOCKED = 3;
+
+// Route costs — a bend costs as much as a few extra cells of travel, so the
+// router prefers long straight runs over staircase paths
+const STEP_COST = 1;
+const BEND_COST = 4;
+const NEAR_COST = 3;
+const BORDER_COST = 2;
+const LINE_CROSS_COST = 6;
+const TEXT_CROSS_COST = 60;
+
+// Directions: right, down, left, up
+const DX = [1, 0, -1, 0];
+const DY = [0, 1, 0, -1];
+
+export interface ObstacleMap {
+  width: number;
+  height: number;
+  // State of the in-bounds cell at x, y
+  at(x: number, y: number): number;
+}
+
+/**
+ * A diagram's boxes as obstacles, rasterized once for all its connections
+ * with every box unrelated to the connection; `obstaclesFor` then exempts
+ * one connection's endpoints.
+ */
+export interface Obstacles {
+  width: number;
+  height: number;
+  boxes: NodeDef[];
+  cells: Uint8Array;
+}
+
+/** A rectangle of cells, clipped to the canvas. */
+interface Rect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+function containsId(node: NodeDef, id: string): boolean {
+  const children = getChildBoxes(node);
+  if (!children) return false;
+  return children.some(c => c.id === id || containsId(c, id));
+}
+
+/**
+ * Rasterize the boxes into `cells`, which covers just `clip`. Unrelated
+ * boxes (with their shadows and titles) are blocked and ringed by a costly
+ * clearance zone, which keeps detours off their anchors. Containers of
+ * either endpoint stay open inside, with a crossable border; the endpoint
+ * boxes themselves are blocked but their own shadows are not.
+ */
+function rasterize(cells: Uint8Array, clip: Rect, boxes: NodeDef[], endpoints: string[]): void {
+  function markRect(x: number, y: number, w: number, h: number, value: number): void {
+    const left = Math.max(x, clip.x);
+    const right = Math.min(x + w, clip.x + clip.w);
+    for (let row = Math.max(y, clip.y); row < Math.min(y + h, clip.y + clip.h); row++) {
+      for (let col = left; col < right; col++) {
+        const i = (row - clip.y) * clip.w + (col - clip.x);
+        if (cells[i] < value) cells[i] = value;
+      }
+    }
+  }
+
+  function walk(list: NodeDef[], parentX: number, parentY: number): void {
+    for (const box of list) {
+      const x = parentX + (box.x ?? 0);
+      const y = parentY + (box.y ?? 0);
+      const w = box.width ?? 0;
+      const h = box.height ?? 0;
+      const isEndpoint = box.id != null && endpoints.includes(box.id);
+
+      if (!isEndpoint && endpoints.some(id => containsId(box, id))) {
+        markRect(x, y, w, 1, CROSSABLE);
+        markRect(x, y + h - 1, w, 1, CROSSABLE);
+        markRect(x, y, 1, h, CROSSABLE);
+        markRect(x + w - 1, y, 1, h, CROSSABLE);
+        if (box.title) {
+          const lines = wrapTitle(box.title, w);
+          markRect(x + 2, y, displayWidth(lines[0]) + 3, 1, BLOCKED);
+          lines.slice(1).forEach((line, i) => markRect(x + 4, y + 1 + i, displayWidth(line), 1, BLOCKED));
+        }
+        walk(getChildBoxes(box) || [], x + 1, y + 1);
+        continue;
+      }
+
+      const shadowW = box.shadow && !isEndpoint ? 2 : 0;
+      const shadowH = box.shadow && !isEndpoint ? 1 : 0;
+      if (!isEndpoint) markRect(x - 1, y - 1, w + shadowW + 2, h + shadowH + 2, NEAR);
+      markRect(x, y, w, h, BLOCKED);
+      if (shadowW > 0) {
+        markRect(x + w, y + 1, 2, h, BLOCKED);
+        markRect(x + 1, y + h, w + 1, 1, BLOCKED);
+      }
+    }
+  }
+
+  walk(boxes, 0, 0);
+}
+
+/** Rasterize a diagram's boxes once, as obstacles to every connection. */
+export function buildObstacles(width: number, height: number, boxes: NodeDef[]): Obstacles {
+  const cells = new Uint8Array(width * height);
+  rasterize(cells, { x: 0, y: 0, w: width, h: height }, boxes, []);
+  return { width, height, boxes, cells };
+}
+
+/**
+ * The cells a box and everything inside it can mark: its clearance ring,
+ * shadow and any child overflowing it included.
+ */
+function extent(box: NodeDef, parentX: number, parentY: number): Rect {
+  const x = parentX + (box.x ?? 0);
+  const y = parentY + (box.y ?? 0);
+  let left = x - 1;
+  let top = y - 1;
+  let right = x + (box.width ?? 0) + (box.shadow ? 2 : 0) + 1;
+  let bottom = y + (box.height ?? 0) + (box.shadow ? 1 : 0) + 1;
+  for (const child of getChildBoxes(box) || []) {
+    const inner = extent(child, x + 1, y + 1);
+    left = Math.min(left, inner.x);
+    top = Math.min(top, inner.y);
+    right = Math.max(right, inner.x + inner.w);
+    bottom = Math.max(bottom, inner.y + inner.h);
+  }
+  return { x: left, y: top, w: right - left, h: bottom - top };
+}
+
+/**
+ * The obstacles for routing `fromId` → `toId`. Only the top-level boxes
+ * holding the endpoints look different to this connection, so just their
+ * cells are rasterized again; the rest are read from `obstacles`.
+ */
+export function obstaclesFor(obstacles: Obstacles, fromId: string, toId: string): ObstacleMap {
+  const { width, height, boxes, cells } = obstacles;
+  const endpoints = [fromId, toId];
+  const patches: Array<{ rect: Rect; cells: Uint8Array }> = [];
+  for (const box of boxes) {
+    if (!endpoints.some(id => box.id === id || containsId(box, id))) continue;
+    const { x, y, w, h } = extent(box, 0, 0);
+    const left = Math.max(x, 0);
+    const top = Math.max(y, 0);
+    const rect = { x: left, y: top, w: Math.min(x + w, width) - left, h: Math.min(y + h, height) - top };
+    if (rect.w <= 0 || rect.h <= 0) continue;
+    const patch = new Uint8Array(rect.w * rect.h);
+    rasterize(patch, rect, boxes, endpoints);
+    patches.push({ rect, cells: patch });
+  }
+  return {
+    width,
+    height,
+    at(x, y) {
+      for (const { rect, cells: patch } of patches) {
+        if (x >= rect.x && x < rect.x + rect.w && y >= rect.y && y < rect.y + rect.h) {
+          return patch[(y - rect.y) * rect.w + (x - rect.x)];
+        }
+      }
+      return cells[y * width + x];
+    },
+  };
+}
+
+/** Rasterize every box into an obstacle map for routing `fromId` → `toId`. */
+export function buildObstacleMap(width: number, height: number, boxes: NodeDef[], fromId: string, toId: string): ObstacleMap {
+  return obstaclesFor(buildObstacles(width, height, boxes), fromId, toId);
+}
+
+/** True if any cell of the polyline (other than its two end cells) is blocked. */
+export function isPathBlocked(map: ObstacleMap, polyline: Point[]): boolean {
+  const first = polyline[0];
+  const last = polyline[polyline.length - 1];
+  for (let i = 0; i + 1 < polyline.length; i++) {
+    const a = polyline[i];
+    const b = polyline[i + 1];
+    const sx = Math.sign(b.x - a.x);
+    const sy = Math.sign(b.y - a.y);
+    let x = a.x;
+    let y = a.y;
+    while (true) {
+      const isEnd = (x === first.x && y === first.y) || (x === last.x && y === last.y);
+      if (!isEnd && x >= 0 && x < map.width && y >= 0 && y < map.height &&
+          map.at(x, y) === BLOCKED) {
+        return true;
+      }
+      if (x === b.x && y === b.y) break;
+      x += sx;
+      y += sy;
+    }
+  }
+  return false;
+}
+
+function sideToOutwardDir(side: Side): number {
+  switch (side) {
+    case 'right': return 0;
+    case 'bottom': return 1;
+    case 'left': return 2;
+    default: return 3;
+  }
+}
+
+/** Cost of stepping onto a cell that another connection or label already uses. */
+function crossingCost(canvas: Canvas, x: number, y: number): number {
+  const ch = canvas.get(x, y);
+  if (ch === ' ' || ch === SHADOW_CHAR) return 0;
+  // Another connection's line, hops over other lines included
+  if (canvas.getArms(x, y)) return LINE_CROSS_COST;
+  const code = ch.codePointAt(0) ?? 0;
+  // Box-drawing range: a border
+  if (code >= 0x2500 && code <= 0x257f) return LINE_CROSS_COST;
+  return TEXT_CROSS_COST;
+}
+
+/** Minimal binary heap keyed on f-score. */
+class MinHeap {
+  private keys: number[] = [];
+  private values: number[] = [];
+
+  get size(): number {
+    return this.keys.length;
+  }
+
+  push(key: number, value: number): void {
+    this.keys.push(key);
+    this.values.push(value);
+    let i = this.keys.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.keys[parent] <= this.keys[i]) break;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  pop(): number {
+    const top = this.values[0];
+    const lastKey = this.keys.pop()!;
+    const lastValue = this.values.pop()!;
+    if (this.keys.length > 0) {
+      this.keys[0] = lastKey;
+      this.values[0] = lastValue;
+      let i = 0;
+      while (true) {
+        const l = i * 2 + 1;
+        const r = l + 1;
+        let min = i;
+        if (l < this.keys.length && this.keys[l] < this.keys[min]) min = l;
+        if (r < this.keys.length && this.keys[r] < this.keys[min]) min = r;
+        if (min === i) break;
+        this.swap(i, min);
+        i = min;
+      }
+    }
+    return top;
+  }
+
+  private swap(a: number, b: number): void {
+    [this.keys[a], this.keys[b]] = [this.keys[b], this.keys[a]];
+    [this.values[a], this.values[b]] = [this.values[b], this.values[a]];
+  }
+}
+
+/**
+ * A* search for an orthogonal route from `src` (leaving through `fromSide`) to
+ * `dst` (entering through `toSide`). Penalizes bends, container border
+ * crossings and overlap with already-drawn lines and labels.
+ * Returns every cell on the route, anchors included, or null if none exists.
+ */
+export function findRoute(
+  map: ObstacleMap,
+  canvas: Canvas,
+  src: Point,
+  fromSide: Side,
+  dst: Point,
+  toSide: Side,
+): Point[] | null {
+  const { width, height } = map;
+  const inBounds = (x: number, y: number) => x >= 0 && x < width && y >= 0 && y < height;
+  if (!inBounds(src.x, src.y) || !inBounds(dst.x, dst.y)) return null;
+
+  const startDir = sideToOutwardDir(fromSide);
+  // Entering the target means moving opposite to its outward direction
+  const goalDir = (sideToOutwardDir(toSide) + 2) % 4;
+
+  // Kept sparse, so a search costs what it explores rather than the canvas size
+  const gScore = new Map<number, number>();
+  const parent = new Map<number, number>();
+  const closed = new Set<number>();
+  const heuristic = (x: number, y: number) => Math.abs(x - dst.x) + Math.abs(y - dst.y);
+
+  const start = (src.y * width + src.x) * 4 + startDir;
+  gScore.set(start, 0);
+  const open = new MinHeap();
+  open.push(heuristic(src.x, src.y), start);
+
+  let goal = -1;
+  while (open.size > 0) {
+    const state = open.pop();
+    if (closed.has(state)) continue;
+    closed.add(state);
+
+    const dir = state % 4;
+    const cell = (state - dir) / 4;
+    const x = cell % width;
+    const y = (cell - x) / width;
+    if (x === dst.x && y === dst.y && dir === goalDir) {
+      goal = state;
+      break;
+    }
+
+    for (let nd = 0; nd < 4; nd++) {
+      if (nd === (dir + 2) % 4) continue; // no reversing
+      const nx = x + DX[nd];
+      const ny = y + DY[nd];
+      if (!inBounds(nx, ny)) continue;
+      const isDst = nx === dst.x && ny === dst.y;
+      const cellState = map.at(nx, ny);
+      if (cellState === BLOCKED && !isDst) continue;
+
+      let cost = STEP_COST;
+      if (nd !== dir) cost += BEND_COST;
+      if (cellState === NEAR) cost += NEAR_COST;
+      else if (cellState === CROSSABLE) cost += BORDER_COST;
+      if (!isDst) cost += crossingCost(canvas, nx, ny);
+
+      const next = (ny * width + nx) * 4 + nd;
+      const g = gScore.get(state)! + cost;
+      if (g < (gScore.get(next) ?? Infinity)) {
+        gScore.set(next, g);
+        parent.set(next, state);
+        open.push(g + heuristic(nx, ny), next);
+      }
+    }
+  }
+
+  if (goal < 0) return null;
+
+  const path: Point[] = [];
+  for (let s: number | undefined = goal; s != null; s = parent.get(s)) {
+    const cell = Math.floor(s / 4);
+    path.push({ x: cell % width, y: Math.floor(cell / width) });
+  }
+  return path.reverse();
+}
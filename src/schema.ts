@@ -1,17 +1,79 @@
 import { z } from 'zod';
+import { isColor } from './color.js';
+import { borderStyleNames, isBorderStyle } from './themes.js';
+
+// A named 16-colour terminal colour ('red', 'bright-blue', …), a 256-colour
+// palette index, or a truecolor '#rgb'/'#rrggbb' hex string
+export type Color = string | number;
+
+export const ColorSchema = z.union([
+  z.string().refine(isColor, { message: 'Expected a colour name or a #rgb/#rrggbb hex colour' }),
+  z.number().int().min(0).max(255),
+]);
+
+// Border styles are looked up when parsing, since themes can add to them
+export const BorderSchema = z.string().refine(
+  name => isBorderStyle(name),
+  () => ({ message: `Expected one of ${borderStyleNames().join(', ')}` }),
+);
 
 export const ConnectionSchema = z.object({
-  from: z.string(),
-  to: z.string(),
-  label: z.string().optional(),
-  fromSide: z.enum(['left', 'right', 'top', 'bottom']).optional(),
-  toSide: z.enum(['left', 'right', 'top', 'bottom']).optional(),
+  id: z.string().optional().describe('Identifies the connection in SVG output; defaults to "from->to"'),
+  from: z.string().describe('Id of the source box'),
+  to: z.string().describe('Id of the target box'),
+  label: z.string().optional().describe('Text label on the line'),
+  fromSide: z.enum(['left', 'right', 'top', 'bottom']).optional().describe('Side of the source box the line leaves by; chosen automatically if unset'),
+  toSide: z.enum(['left', 'right', 'top', 'bottom']).optional().describe('Side of the target box the line enters by; chosen automatically if unset'),
+  fromPort: z.number().int().optional().describe('Offset of the exit point from the middle of its side, right or down positive'),
+  toPort: z.number().int().optional().describe('Offset of the entry point from the middle of its side, right or down positive'),
+  style: z.enum(['solid', 'dashed', 'dotted', 'double', 'bold']).optional().describe('Line style (default solid)'),
+  arrow: z.enum(['none', 'end', 'start', 'both']).optional().describe('Which ends get a marker (default end)'),
+  head: z.enum(['triangle', 'cross', 'circle', 'diamond']).optional().describe('Marker at the target end (default triangle)'),
+  tail: z.enum(['triangle', 'cross', 'circle', 'diamond']).optional().describe('Marker at the source end (default triangle)'),
+  color: ColorSchema.optional().describe('Terminal colour of the line and label'),
+  borderColor: ColorSchema.optional().describe('Terminal colour of just the line; overrides color'),
+  textColor: ColorSchema.optional().describe('Terminal colour of just the label; overrides color'),
+  background: ColorSchema.optional().describe('Terminal colour behind the label'),
+  class: z.string().optional().describe('Space-separated CSS classes on the connection in SVG output; each also picks a rule from the root styles, before classes'),
+  classes: z.array(z.string()).optional().describe('Names of rules in the root styles to apply, in order after the words of class; also CSS classes in SVG output'),
+  tooltip: z.string().optional().describe('Hover tooltip in SVG output'),
 });
 
 export type ConnectionDef = z.infer<typeof ConnectionSchema>;
 
+// A rule in a diagram's `styles`: the box and connection properties a class
+// sets. Each property only applies to whichever of the two it exists on
+export const StyleRuleSchema = z.object({
+  border: BorderSchema.optional().describe('Border style of boxes with this class'),
+  shadow: z.boolean().optional().describe('Whether boxes with this class have a shadow'),
+  disabled: z.boolean().optional().describe('Whether boxes with this class are drawn disabled'),
+  align: z.enum(['left', 'center', 'right']).optional().describe('Text placement across boxes with this class'),
+  valign: z.enum(['top', 'middle', 'bottom']).optional().describe('Text placement down boxes with this class'),
+  padding: z.number().int().min(0).optional().describe('Padding of boxes with this class on every side'),
+  paddingX: z.number().int().min(0).optional().describe('Left and right padding of boxes with this class'),
+  paddingY: z.number().int().min(0).optional().describe('Top and bottom padding of boxes with this class'),
+  maxWidth: z.number().optional().describe('Cap on the auto-sized width of boxes with this class'),
+  color: ColorSchema.optional().describe('Terminal colour of boxes and connections with this class'),
+  borderColor: ColorSchema.optional().describe('Terminal colour of just the border or line'),
+  textColor: ColorSchema.optional().describe('Terminal colour of just the text or label'),
+  background: ColorSchema.optional().describe('Terminal colour filling boxes, or behind connection labels'),
+  style: z.enum(['solid', 'dashed', 'dotted', 'double', 'bold']).optional().describe('Line style of connections with this class'),
+  arrow: z.enum(['none', 'end', 'start', 'both']).optional().describe('Which ends of connections with this class get a marker'),
+  head: z.enum(['triangle', 'cross', 'circle', 'diamond']).optional().describe('Marker at the target end of connections with this class'),
+  tail: z.enum(['triangle', 'cross', 'circle', 'diamond']).optional().describe('Marker at the source end of connections with this class'),
+}).strict();
+
+export type StyleRule = z.infer<typeof StyleRuleSchema>;
+
 export type Side = 'left' | 'right' | 'top' | 'bottom';
-export type BorderStyle = 'single' | 'double' | 'bold' | 'rounded' | 'dashed';
+// The built-in border styles, plus any name given to registerBorderStyle
+// or defined by a registered theme
+export type BorderStyle = 'single' | 'double' | 'bold' | 'rounded' | 'dashed' | (string & {});
+export type LineStyle = 'solid' | 'dashed' | 'dotted' | 'double' | 'bold';
+export type ArrowMode = 'none' | 'end' | 'start' | 'both';
+export type MarkerKind = 'triangle' | 'cross' | 'circle' | 'diamond';
+export type TextAlign = 'left' | 'center' | 'right';
+export type VerticalAlign = 'top' | 'middle' | 'bottom';
 
 // children is polymorphic:
 //   - string        → single line of text content
@@ -25,30 +87,76 @@ export type NodeDef = {
   shadow?: boolean;
   disabled?: boolean;
   childDirection?: 'horizontal' | 'vertical';
+  // Flip the layered auto-layout so connections flow right-to-left
+  // (or bottom-to-top when childDirection is vertical)
+  reverse?: boolean;
   x?: number;
   y?: number;
   width?: number;
   height?: number;
+  // Upper bound on an auto-sized width; longer text and titles wrap to fit
+  maxWidth?: number;
+  // Placement of text lines inside the box
+  align?: TextAlign;
+  valign?: VerticalAlign;
+  // Blank cells between the border and the content; paddingX/paddingY
+  // override `padding` for the left/right and top/bottom sides
+  padding?: number;
+  paddingX?: number;
+  paddingY?: number;
+  // Terminal colours: `color` sets both the border and the text, which
+  // borderColor/textColor override; `background` fills the interior
+  color?: Color;
+  borderColor?: Color;
+  textColor?: Color;
+  background?: Color;
+  // SVG output: space-separated CSS classes, a hover tooltip, and a link.
+  // The words of `class` also pick rules from `styles`, before `classes`
+  class?: string;
+  tooltip?: string;
+  href?: string;
+  // Names of rules in the diagram's `styles` to apply, in order after the
+  // words of `class`, so they win over those; the box's own properties win
+  // over all of them. They're CSS classes in SVG output too
+  classes?: string[];
+  // Style rules by class name, on the root diagram only
+  styles?: Record<string, StyleRule>;
   connections?: ConnectionDef[];
 };
 
 const NodeSchema: z.ZodType<NodeDef> = z.lazy(() =>
   z.object({
-    id: z.string().optional(),
+    id: z.string().optional().describe('Identifies the box for connections; unique across the diagram'),
     children: z.union([
       z.string(),
       z.array(z.union([z.string(), NodeSchema])),
-    ]).optional(),
-    border: z.enum(['single', 'double', 'bold', 'rounded', 'dashed']).optional(),
-    title: z.string().optional(),
-    shadow: z.boolean().optional(),
-    disabled: z.boolean().optional(),
-    childDirection: z.enum(['horizontal', 'vertical']).optional(),
-    x: z.number().optional(),
-    y: z.number().optional(),
-    width: z.number().optional(),
-    height: z.number().optional(),
-    connections: z.array(ConnectionSchema).optional(),
+    ]).optional().describe('A line of text, an array of lines, or an array of nested boxes'),
+    border: BorderSchema.optional().describe('Border style: single, double, bold, rounded, dashed, or one registered or defined by a theme (default single)'),
+    title: z.string().optional().describe('Text on the top border'),
+    shadow: z.boolean().optional().describe('Adds a shadow on the right and bottom'),
+    disabled: z.boolean().optional().describe('Shades the box, strikes through the title and dims the text'),
+    childDirection: z.enum(['horizontal', 'vertical']).optional().describe('Whether children are laid out side by side or stacked (default horizontal)'),
+    reverse: z.boolean().optional().describe('Flips the layered layout to flow right-to-left, or bottom-to-top when vertical'),
+    x: z.number().optional().describe('Column of the top-left corner, relative to the parent; laid out automatically if unset'),
+    y: z.number().optional().describe('Row of the top-left corner, relative to the parent; laid out automatically if unset'),
+    width: z.number().optional().describe('Width in characters; sized to fit if unset'),
+    height: z.number().optional().describe('Height in characters; sized to fit if unset'),
+    maxWidth: z.number().optional().describe('Cap on the auto-sized width; text and titles word-wrap to fit'),
+    align: z.enum(['left', 'center', 'right']).optional().describe('Text placement across the box (default center)'),
+    valign: z.enum(['top', 'middle', 'bottom']).optional().describe('Text placement down the box (default middle)'),
+    padding: z.number().int().min(0).optional().describe('Blank cells between the border and the content on every side'),
+    paddingX: z.number().int().min(0).optional().describe('Left and right padding; overrides padding'),
+    paddingY: z.number().int().min(0).optional().describe('Top and bottom padding; overrides padding'),
+    color: ColorSchema.optional().describe('Terminal colour of the border and text'),
+    borderColor: ColorSchema.optional().describe('Terminal colour of just the border; overrides color'),
+    textColor: ColorSchema.optional().describe('Terminal colour of just the title and text; overrides color'),
+    background: ColorSchema.optional().describe('Terminal colour filling the interior'),
+    class: z.string().optional().describe('Space-separated CSS classes on the box in SVG output; each also picks a rule from the root styles, before classes'),
+    tooltip: z.string().optional().describe('Hover tooltip in SVG output'),
+    href: z.string().optional().describe('Makes the box a link in SVG output'),
+    classes: z.array(z.string()).optional().describe('Names of rules in the root styles to apply, in order after the words of class; also CSS classes in SVG output'),
+    styles: z.record(StyleRuleSchema).optional().describe('Root diagram only: style rules by class name'),
+    connections: z.array(ConnectionSchema).optional().describe('Connections between boxes by id, which can name boxes nested at any depth'),
   })
 );
 
@@ -62,6 +170,17 @@ export interface Point {
   y: number;
 }
 
+/**
+ * The grid cells a drawn connection passes through, from the cell just
+ * outside its source box to the one just outside its target (where the
+ * arrow head sits), plus the sides it leaves and enters by.
+ */
+export interface ConnectionPath {
+  cells: Point[];
+  fromSide: Side;
+  toSide: Side;
+}
+
 export interface ResolvedBox {
   box: NodeDef & { x: number; y: number; width: number; height: number };
   absX: number;
@@ -75,6 +194,38 @@ export interface BorderChars {
   br: string;
   h: string;
   v: string;
+  // Per-side overrides of h and v, for borders like a heavy top on light sides
+  top?: string;
+  bottom?: string;
+  left?: string;
+  right?: string;
+}
+
+/**
+ * Glyph set for drawing connection lines: corners and straight runs. Where
+ * lines meet, the junction is picked by its arms instead.
+ */
+export type LineChars = BorderChars;
+
+export type LineWeight = 'light' | 'heavy' | 'double';
+
+/** Which directions a connection line leaves a cell in, and how heavy each arm is. */
+export interface LineArms {
+  up?: LineWeight;
+  down?: LineWeight;
+  left?: LineWeight;
+  right?: LineWeight;
+}
+
+/** Text attributes of a canvas cell. Each output format renders them its own way. */
+export interface CellAttributes {
+  strike?: boolean;
+  dim?: boolean;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  fg?: Color;
+  bg?: Color;
 }
 
 export interface SvgOptions {
@@ -90,6 +241,23 @@ export interface SvgOptions {
   borderRadius?: number;
 }
 
+export interface HtmlOptions {
+  // Just the diagram's markup, styles and script, to embed in another page
+  fragment?: boolean;
+  // Document title (full pages only)
+  title?: string;
+  fontSize?: number;
+  fontFamily?: string;
+  lightBg?: string;
+  lightFg?: string;
+  darkBg?: string;
+  darkFg?: string;
+  // Background of the hovered box and its connections
+  highlight?: string;
+}
+
+export type Charset = 'unicode' | 'ascii';
+
 export interface LayoutOptions {
   defaultHGap?: number;
   vGap?: number;
@@ -97,6 +265,98 @@ export interface LayoutOptions {
   padTop?: number;
   minBoxWidth?: number;
   minBoxHeight?: number;
+  /** Default `maxWidth` for boxes that don't set their own */
+  maxWidth?: number;
+}
+
+/**
+ * Glyphs and colours to draw a diagram with. Everything is optional; what
+ * a theme leaves out is drawn as usual.
+ */
+export interface Theme {
+  // Border sets by style name, restyling built-in styles or adding new ones
+  borders?: Record<string, BorderChars>;
+  // Arrowheads, keyed like ARROW_HEADS by the side of the box they point into
+  arrowHeads?: Partial<Record<Side, string>>;
+  // Glyph for shadows and the shading of disabled boxes
+  shadow?: string;
+  // Glyphs for connection line cells, keyed by the glyph they replace:
+  // corners, tees and crosses where lines merge, and the hop `)`
+  junctions?: Record<string, string>;
+  // Default colours and font for SVG and HTML output
+  svg?: SvgOptions;
+}
+
+const GlyphSchema = z.string().min(1);
+
+const BorderCharsSchema = z.object({
+  tl: GlyphSchema,
+  tr: GlyphSchema,
+  bl: GlyphSchema,
+  br: GlyphSchema,
+  h: GlyphSchema,
+  v: GlyphSchema,
+  top: GlyphSchema.optional(),
+  bottom: GlyphSchema.optional(),
+  left: GlyphSchema.optional(),
+  right: GlyphSchema.optional(),
+});
+
+export const ThemeSchema: z.ZodType<Theme> = z.object({
+  borders: z.record(BorderCharsSchema).optional(),
+  arrowHeads: z.object({
+    left: GlyphSchema.optional(),
+    right: GlyphSchema.optional(),
+    top: GlyphSchema.optional(),
+    bottom: GlyphSchema.optional(),
+  }).optional(),
+  shadow: GlyphSchema.optional(),
+  junctions: z.record(GlyphSchema).optional(),
+  svg: z.object({
+    fontSize: z.number().optional(),
+    charWidth: z.number().optional(),
+    lineHeight: z.number().optional(),
+    padding: z.number().optional(),
+    lightBg: z.string().optional(),
+    lightFg: z.string().optional(),
+    darkBg: z.string().optional(),
+    darkFg: z.string().optional(),
+    fontFamily: z.string().optional(),
+    borderRadius: z.number().optional(),
+  }).optional(),
+}).strict();
+
+export interface RenderOptions extends LayoutOptions {
+  // A registered theme's name, or a theme to use just for this render
+  theme?: string | Theme;
+  // 'ascii' swaps box-drawing glyphs, arrows, markers and shadows for
+  // 7-bit ASCII; text in boxes and labels is left as written
+  charset?: Charset;
+  // Check the diagram with `validate` first: 'warn' prints what it finds
+  // to stderr, 'error' throws a DiagramError listing it
+  validate?: 'off' | 'warn' | 'error';
+}
+
+export type DiagnosticCode =
+  | 'unreadable-file'
+  | 'invalid-syntax'
+  | 'invalid-schema'
+  | 'deprecated-key'
+  | 'unknown-endpoint'
+  | 'duplicate-id'
+  | 'overlapping-boxes'
+  | 'truncated-text'
+  | 'child-overflow';
+
+/** A problem `validate` found in a diagram. */
+export interface Diagnostic {
+  code: DiagnosticCode;
+  // Errors leave something out of the drawing or make it ambiguous;
+  // warnings are drawn, just not as the diagram asks
+  severity: 'error' | 'warning';
+  // Keys and array indices from the root to the offending value
+  path: Array<string | number>;
+  message: string;
 }
 
 /** Get the text content lines from a node's children (if children is text) */
@@ -110,6 +370,14 @@ export function getTextContent(node: NodeDef): string[] | null {
   return null;
 }
 
+/** Blank cells between a text box's border and its text, on each side across (x) and down (y) */
+export function getPadding(node: NodeDef): { x: number; y: number } {
+  return {
+    x: node.paddingX ?? node.padding ?? 1,
+    y: node.paddingY ?? node.padding ?? 0,
+  };
+}
+
 /** Get the child boxes from a node's children (if children is boxes) */
 export function getChildBoxes(node: NodeDef): NodeDef[] | null {
   if (!Array.isArray(node.children)) return null;
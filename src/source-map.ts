@@ -0,0 +1,255 @@
+import yaml from 'js-yaml';
+import { displayWidth } from './text-width.js';
+
+/** A place in a source file. Lines and columns count from 1. */
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+/**
+ * Where a parsed value came from: its own position, and for objects and
+ * arrays the values inside it by key or index, plus where each key was written.
+ */
+export interface SourceNode extends SourcePosition {
+  entries?: Map<string | number, SourceNode>;
+  keys?: Map<string, SourcePosition>;
+}
+
+/** A parsed document and the source positions of its values. */
+export interface ParsedSource {
+  value: unknown;
+  map: SourceNode;
+}
+
+/** A JSON or YAML syntax error, with where in the text it happened. */
+export class SourceSyntaxError extends Error {
+  line: number;
+  column: number;
+
+  constructor(message: string, { line, column }: SourcePosition) {
+    super(message);
+    this.name = 'SourceSyntaxError';
+    this.line = line;
+    this.column = column;
+  }
+}
+
+/** Converts offsets into `text` to lines and columns. */
+function positionsIn(text: string): (offset: number) => SourcePosition {
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') lineStarts.push(i + 1);
+  }
+  return offset => {
+    let line = lineStarts.length - 1;
+    while (lineStarts[line] > offset) line--;
+    return { line: line + 1, column: offset - lineStarts[line] + 1 };
+  };
+}
+
+/**
+ * Parse JSON, keeping where each value and key was written. Accepts exactly
+ * what `JSON.parse` does.
+ */
+export function parseJsonSource(text: string): ParsedSource {
+  const at = positionsIn(text);
+  let i = 0;
+
+  const fail = (message: string, offset = i): never => {
+    throw new SourceSyntaxError(message, at(offset));
+  };
+  const skipSpace = () => {
+    while (i < text.length && ' \t\n\r'.includes(text[i])) i++;
+  };
+  const unexpected = () => fail(i < text.length ? `Unexpected ${JSON.stringify(text[i])}` : 'Unexpected end of input');
+  const expect = (char: string) => {
+    skipSpace();
+    if (text[i] !== char) unexpected();
+    i++;
+  };
+
+  const parseString = (): string => {
+    const start = i;
+    i++;
+    while (i < text.length && text[i] !== '"') {
+      if (text[i] === '\\') i++;
+      else if (text.charCodeAt(i) < 0x20) fail('Unescaped control character in string');
+      i++;
+    }
+    if (i >= text.length) fail('Unterminated string', start);
+    i++;
+    try {
+      return JSON.parse(text.slice(start, i));
+    } catch {
+      return fail('Invalid escape in string', start);
+    }
+  };
+
+  const parseValue = (): { value: unknown; node: SourceNode } => {
+    skipSpace();
+    const node: SourceNode = at(i);
+    const char = text[i];
+    if (char === '{') {
+      i++;
+      const value: Record<string, unknown> = {};
+      node.entries = new Map();
+      node.keys = new Map();
+      skipSpace();
+      if (text[i] === '}') {
+        i++;
+        return { value, node };
+      }
+      for (;;) {
+        skipSpace();
+        if (text[i] !== '"') unexpected();
+        const keyAt = at(i);
+        const key = parseString();
+        expect(':');
+        const entry = parseValue();
+        // Defined rather than assigned, so "__proto__" is a key like any other
+        Object.defineProperty(value, key, { value: entry.value, enumerable: true, writable: true, configurable: true });
+        node.entries.set(key, entry.node);
+        node.keys.set(key, keyAt);
+        skipSpace();
+        if (text[i] === '}') break;
+        if (text[i] !== ',') unexpected();
+        i++;
+      }
+      i++;
+      return { value, node };
+    }
+    if (char === '[') {
+      i++;
+      const value: unknown[] = [];
+      node.entries = new Map();
+      skipSpace();
+      if (text[i] === ']') {
+        i++;
+        return { value, node };
+      }
+      for (;;) {
+        const entry = parseValue();
+        node.entries.set(value.length, entry.node);
+        value.push(entry.value);
+        skipSpace();
+        if (text[i] === ']') break;
+        if (text[i] !== ',') unexpected();
+        i++;
+      }
+      i++;
+      return { value, node };
+    }
+    if (char === '"') return { value: parseString(), node };
+    const literal = /^(?:true|false|null|-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?)/.exec(text.slice(i, i + 400));
+    if (!literal) return unexpected();
+    i += literal[0].length;
+    return { value: JSON.parse(literal[0]), node };
+  };
+
+  const { value, node } = parseValue();
+  skipSpace();
+  if (i < text.length) unexpected();
+  return { value, map: node };
+}
+
+/**
+ * The offset of the first character at or after `offset` that isn't blank
+ * or a comment, staying on the same line unless `multiline`.
+ */
+function skipBlank(text: string, offset: number, multiline = true): number {
+  let i = offset;
+  while (i < text.length) {
+    if (' \t'.includes(text[i]) || (multiline && '\r\n'.includes(text[i]))) i++;
+    else if (text[i] === '#') while (i < text.length && text[i] !== '\n') i++;
+    else break;
+  }
+  return i;
+}
+
+/**
+ * Parse YAML, keeping where each value and key was written. js-yaml has no
+ * syntax tree, so the positions are rebuilt from the events it reports as
+ * it opens and closes each node: a mapping's nodes close in key, value
+ * order and a sequence's in item order.
+ */
+export function parseYamlSource(text: string): ParsedSource {
+  const at = positionsIn(text);
+  const stack: Array<{ offset: number; items: Array<{ value: unknown; node: SourceNode }> }> = [{ offset: 0, items: [] }];
+
+  let value: unknown;
+  try {
+    value = yaml.load(text, {
+      listener(event, state) {
+        if (event === 'open') {
+          stack.push({ offset: state.position, items: [] });
+          return;
+        }
+        const { offset, items } = stack.pop()!;
+        const result: unknown = state.result;
+        // A block collection starts on the line after its key, a scalar on the same line
+        let node: SourceNode = at(skipBlank(text, offset, state.kind === 'mapping' || state.kind === 'sequence'));
+        if (items.length === 1 && items[0].value === result && typeof result === 'object' && result !== null) {
+          // Flow collections are opened twice over the same value
+          node = items[0].node;
+        } else if (state.kind === 'mapping') {
+          node.entries = new Map();
+          node.keys = new Map();
+          for (let k = 0; k + 1 < items.length; k += 2) {
+            const key = String(items[k].value);
+            node.entries.set(key, items[k + 1].node);
+            node.keys.set(key, { line: items[k].node.line, column: items[k].node.column });
+          }
+        } else if (state.kind === 'sequence') {
+          node.entries = new Map(items.map((item, k) => [k, item.node]));
+        }
+        stack[stack.length - 1].items.push({ value: result, node });
+      },
+    });
+  } catch (err) {
+    if (err instanceof yaml.YAMLException) {
+      throw new SourceSyntaxError(err.reason, { line: err.mark.line + 1, column: err.mark.column + 1 });
+    }
+    throw err;
+  }
+  const root = stack[0].items.pop();
+  return { value, map: root?.node ?? at(skipBlank(text, 0)) };
+}
+
+/**
+ * Where the value at `path` was written, or where its nearest enclosing
+ * value was when it's missing (a required property that was left out).
+ */
+export function locate(map: SourceNode, path: Array<string | number>): SourcePosition {
+  let node = map;
+  for (const key of path) {
+    const next = node.entries?.get(key);
+    if (!next) break;
+    node = next;
+  }
+  return { line: node.line, column: node.column };
+}
+
+/**
+ * The source line a position is on, after the one before it, with a caret
+ * under its column:
+ *
+ *     4 |   - id: db
+ *   > 5 |     border: wavy
+ *       |             ^
+ */
+export function codeFrame(text: string, { line, column }: SourcePosition): string {
+  const lines = text.split(/\r?\n/);
+  const first = Math.max(1, line - 1);
+  const gutter = String(line).length;
+  const frame = lines.slice(first - 1, line).map((source, i) => {
+    const n = first + i;
+    return `${n === line ? '>' : ' '} ${String(n).padStart(gutter)} | ${source}`.trimEnd();
+  });
+  // Tabs are kept so the caret lines up however wide the terminal draws them
+  const before = [...(lines[line - 1] ?? '').slice(0, column - 1)]
+    .map(char => (char === '\t' ? '\t' : ' '.repeat(displayWidth(char))))
+    .join('');
+  frame.push(`  ${' '.repeat(gutter)} | ${before}^`);
+  return frame.join('\n');
+}
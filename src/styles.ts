@@ -0,0 +1,52 @@
+import type { ConnectionDef, NodeDef, StyleRule } from './schema.js';
+
+// Which style rule properties apply to boxes and which to connections
+const NODE_PROPERTIES = [
+  'border', 'shadow', 'disabled', 'align', 'valign', 'padding', 'paddingX', 'paddingY', 'maxWidth',
+  'color', 'borderColor', 'textColor', 'background',
+] as const;
+const CONNECTION_PROPERTIES = ['style', 'arrow', 'head', 'tail', 'color', 'borderColor', 'textColor', 'background'] as const;
+
+/**
+ * Class names a box or connection has: the words of `class`, then `classes`,
+ * each name once. A rule named in `classes` so wins over one named in `class`,
+ * and both kinds end up as CSS classes in SVG and HTML output.
+ */
+export function classNames(item: NodeDef | ConnectionDef): string[] {
+  return [...new Set([...(item.class?.split(/\s+/).filter(Boolean) ?? []), ...(item.classes ?? [])])];
+}
+
+/**
+ * Properties `styles` gives an item through its classes, later classes
+ * winning over earlier ones, and the item's own properties over both.
+ */
+function styled<T extends NodeDef | ConnectionDef>(item: T, styles: Record<string, StyleRule>, properties: readonly string[]): T {
+  const out: Record<string, unknown> = { ...item };
+  const rules = classNames(item).map(name => styles[name]).filter(Boolean).reverse();
+  for (const key of properties) {
+    if (out[key] !== undefined) continue;
+    const rule = rules.find(r => r[key as keyof StyleRule] !== undefined);
+    if (rule) out[key] = rule[key as keyof StyleRule];
+  }
+  return out as T;
+}
+
+function styleNode(node: NodeDef, styles: Record<string, StyleRule>): NodeDef {
+  const out = styled(node, styles, NODE_PROPERTIES);
+  if (Array.isArray(node.children)) {
+    out.children = node.children.map(child => (typeof child === 'string' ? child : styleNode(child, styles)));
+  }
+  if (node.connections) out.connections = node.connections.map(conn => styled(conn, styles, CONNECTION_PROPERTIES));
+  return out;
+}
+
+/**
+ * Resolve the root diagram's `styles` onto every box and connection that
+ * names one of its classes, so layout and drawing see plain properties.
+ * Returns a copy; a diagram without `styles` is returned as is.
+ */
+export function applyStyles(diagram: NodeDef): NodeDef {
+  const { styles } = diagram;
+  if (!styles || Object.keys(styles).length === 0) return diagram;
+  return styleNode(diagram, styles);
+}
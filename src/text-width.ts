@@ -0,0 +1,81 @@
+// Display width of text on a terminal grid: text is split into grapheme
+// clusters (what a reader sees as one character), and each cluster takes
+// 0, 1 or 2 columns, following wcwidth — East Asian wide and fullwidth
+// characters and emoji take two.
+
+const segmenter = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+
+// East Asian Wide (W) and Fullwidth (F) code point ranges
+const WIDE_RANGES: Array<[number, number]> = [
+  [0x1100, 0x115f], // Hangul Jamo initial consonants
+  [0x2329, 0x232a],
+  [0x2e80, 0x303e], // CJK radicals, Kangxi, ideographic punctuation
+  [0x3041, 0x33ff], // Hiragana, Katakana, Bopomofo, Hangul compatibility, CJK symbols
+  [0x3400, 0x4dbf], // CJK extension A
+  [0x4e00, 0x9fff], // CJK unified ideographs
+  [0xa000, 0xa4cf], // Yi
+  [0xa960, 0xa97f], // Hangul Jamo extended A
+  [0xac00, 0xd7a3], // Hangul syllables
+  [0xf900, 0xfaff], // CJK compatibility ideographs
+  [0xfe10, 0xfe19], // vertical forms
+  [0xfe30, 0xfe6f], // CJK compatibility forms, small forms
+  [0xff00, 0xff60], // fullwidth forms
+  [0xffe0, 0xffe6],
+  [0x1b000, 0x1b2ff], // Kana supplement and extensions
+  [0x1f200, 0x1f2ff], // enclosed ideographic supplement
+  [0x20000, 0x2fffd], // CJK extensions B–F
+  [0x30000, 0x3fffd], // CJK extension G and beyond
+];
+
+const EMOJI_PRESENTATION = /\p{Emoji_Presentation}/u;
+const ZERO_WIDTH = /^[\p{Mn}\p{Me}\p{Cf}\p{Cc}]$/u;
+const REGIONAL_INDICATOR = /^\p{Regional_Indicator}/u;
+
+function isWide(cp: number): boolean {
+  if (cp < 0x1100) return false;
+  for (const [lo, hi] of WIDE_RANGES) {
+    if (cp < lo) return false;
+    if (cp <= hi) return true;
+  }
+  return false;
+}
+
+/** Split text into grapheme clusters. */
+export function graphemes(text: string): string[] {
+  // Plain ASCII is one cluster per character; skip the segmenter
+  if (/^[\x20-\x7e]*$/.test(text)) return text.split('');
+  return Array.from(segmenter.segment(text), s => s.segment);
+}
+
+/** Columns one grapheme cluster takes up: 0, 1 or 2. */
+export function graphemeWidth(g: string): number {
+  const cp = g.codePointAt(0);
+  if (cp == null) return 0;
+  if (g.length === 1 && cp < 0x7f) return cp < 0x20 ? 0 : 1;
+  // Emoji: default emoji presentation, an emoji variation selector, or a flag
+  if (g.includes('\uFE0F') || EMOJI_PRESENTATION.test(g) || REGIONAL_INDICATOR.test(g)) return 2;
+  if (isWide(cp)) return 2;
+  if (ZERO_WIDTH.test(String.fromCodePoint(cp))) return 0;
+  return 1;
+}
+
+/** Columns `text` takes up on the grid. */
+export function displayWidth(text: string): number {
+  if (/^[\x20-\x7e]*$/.test(text)) return text.length;
+  let width = 0;
+  for (const g of graphemes(text)) width += graphemeWidth(g);
+  return width;
+}
+
+/** The longest prefix of `text` that fits in `width` columns, never splitting a cluster. */
+export function sliceToWidth(text: string, width: number): string {
+  let used = 0;
+  let out = '';
+  for (const g of graphemes(text)) {
+    const w = graphemeWidth(g);
+    if (used + w > width) break;
+    used += w;
+    out += g;
+  }
+  return out;
+}
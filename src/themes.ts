@@ -0,0 +1,88 @@
+import type { BorderChars, Side, Theme } from './schema.js';
+import { ARROW_HEADS, BORDERS, SHADOW_CHAR } from './constants.js';
+import type { Canvas } from './canvas.js';
+
+// Border styles by name: the built-in ones plus any registered since
+const borderStyles = new Map<string, BorderChars>(Object.entries(BORDERS));
+const themes = new Map<string, Theme>();
+// The theme of the render being checked, whose own border styles are valid
+// there even when it was passed inline rather than registered
+let currentTheme: Theme | undefined;
+
+/**
+ * Add a border style boxes can name in `border`. Registering a name again
+ * replaces its glyphs; the built-in styles can only be restyled by a theme.
+ */
+export function registerBorderStyle(name: string, chars: BorderChars): void {
+  if (name in BORDERS) {
+    throw new Error(`Border style "${name}" is built in; restyle it with a theme instead`);
+  }
+  borderStyles.set(name, chars);
+}
+
+/**
+ * Add a theme the `theme` render option can name. Border styles the theme
+ * defines become valid `border` names for any diagram.
+ */
+export function registerTheme(name: string, theme: Theme): void {
+  themes.set(name, theme);
+}
+
+/** Whether boxes can use `name` as their border style. */
+export function isBorderStyle(name: string): boolean {
+  return borderStyles.has(name) || [...themes.values(), currentTheme].some(theme => theme?.borders?.[name]);
+}
+
+/**
+ * Run `fn` with `theme`'s border styles accepted as well as the registered
+ * ones, so a diagram can use the styles of the theme it's rendered with.
+ */
+export function withTheme<T>(theme: Theme | undefined, fn: () => T): T {
+  const previous = currentTheme;
+  currentTheme = theme;
+  try {
+    return fn();
+  } finally {
+    currentTheme = previous;
+  }
+}
+
+/** Every name boxes can use as their border style, built in first. */
+export function borderStyleNames(): string[] {
+  const themed = [...themes.values(), currentTheme].flatMap(theme => Object.keys(theme?.borders ?? {}));
+  return [...new Set([...borderStyles.keys(), ...themed])];
+}
+
+/** The theme a render option names, or the theme itself when given one inline. */
+export function resolveTheme(theme: string | Theme | undefined): Theme | undefined {
+  if (typeof theme !== 'string') return theme;
+  const registered = themes.get(theme);
+  if (!registered) {
+    throw new Error(`Unknown theme "${theme}" (registered: ${[...themes.keys()].join(', ') || 'none'})`);
+  }
+  return registered;
+}
+
+/**
+ * Glyphs for a border style: the theme's own set if it has one, otherwise
+ * the registered style, falling back to single for a name defined only by
+ * some other theme.
+ */
+export function borderChars(name: string, theme?: Theme): BorderChars {
+  return theme?.borders?.[name] ?? borderStyles.get(name) ?? BORDERS.single;
+}
+
+/**
+ * Swap a drawn diagram's shadows, arrowheads and line junctions for the
+ * theme's. These are drawn with the default glyphs first, since routing and
+ * line merging read them back off the canvas.
+ */
+export function applyTheme(canvas: Canvas, theme: Theme): void {
+  const glyphs = new Map<string, string>();
+  if (theme.shadow) glyphs.set(SHADOW_CHAR, theme.shadow);
+  for (const [side, glyph] of Object.entries(theme.arrowHeads ?? {})) {
+    if (glyph) glyphs.set(ARROW_HEADS[side as Side], glyph);
+  }
+  const junctions = theme.junctions ?? {};
+  canvas.transliterate((glyph, x, y) => (canvas.getArms(x, y) ? junctions[glyph] : glyphs.get(glyph)) ?? glyph);
+}
@@ -0,0 +1,269 @@
+import type { ZodIssue } from 'zod';
+import type { Diagnostic, NodeDef, RenderOptions, Theme } from './schema.js';
+import { DiagramSchema, getChildBoxes } from './schema.js';
+import { applyStyles } from './styles.js';
+import { autoLayout } from './layout.js';
+import { fitText } from './draw-box.js';
+import { resolveTheme, withTheme } from './themes.js';
+
+type Path = Diagnostic['path'];
+
+/** A box found while walking the tree, with its path from the root. */
+interface BoxAt {
+  box: NodeDef;
+  path: Path;
+}
+
+/** Thrown by `render` with `validate: 'error'` when a diagram has problems. */
+export class DiagramError extends Error {
+  diagnostics: Diagnostic[];
+
+  constructor(diagnostics: Diagnostic[]) {
+    super(diagnostics.map(formatDiagnostic).join('\n'));
+    this.name = 'DiagramError';
+    this.diagnostics = diagnostics;
+  }
+}
+
+/** A path as JSONPath, e.g. `$.children[0].connections[1].to`. */
+export function formatPath(path: Path): string {
+  return '$' + path.map(key => (typeof key === 'number' ? `[${key}]` : `.${key}`)).join('');
+}
+
+/** One line describing a diagnostic: where, how bad, what, and its code. */
+export function formatDiagnostic(d: Diagnostic): string {
+  return `${formatPath(d.path)}: ${d.severity}: ${d.message} [${d.code}]`;
+}
+
+/** Every box in the tree, parents before their children. */
+function walkBoxes(node: NodeDef, path: Path = [], out: BoxAt[] = []): BoxAt[] {
+  const children = getChildBoxes(node);
+  if (!children || !Array.isArray(node.children)) return out;
+  node.children.forEach((child, i) => {
+    if (typeof child === 'string') return;
+    out.push({ box: child, path: [...path, 'children', i] });
+    walkBoxes(child, [...path, 'children', i], out);
+  });
+  return out;
+}
+
+function describe({ box, path }: BoxAt): string {
+  return box.id != null ? `box "${box.id}"` : `the box at ${formatPath(path)}`;
+}
+
+const capitalize = (text: string) => text[0].toUpperCase() + text.slice(1);
+
+/** Edit distance between two ids, for suggesting the one a typo meant. */
+function editDistance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+function unknownEndpoints(all: BoxAt[], boxes: BoxAt[]): Diagnostic[] {
+  const ids = [...new Set(boxes.map(({ box }) => box.id).filter((id): id is string => id != null))];
+  const diagnostics: Diagnostic[] = [];
+  for (const { box, path } of all) {
+    box.connections?.forEach((conn, i) => {
+      for (const end of ['from', 'to'] as const) {
+        const id = conn[end];
+        if (ids.includes(id)) continue;
+        const near = ids.find(other => editDistance(id, other) <= Math.min(2, Math.floor(id.length / 2)));
+        diagnostics.push({
+          code: 'unknown-endpoint',
+          severity: 'error',
+          path: [...path, 'connections', i, end],
+          message: `No box has id "${id}", so the connection from "${conn.from}" to "${conn.to}" isn't drawn${near ? ` (did you mean "${near}"?)` : ''}`,
+        });
+      }
+    });
+  }
+  return diagnostics;
+}
+
+function duplicateIds(boxes: BoxAt[]): Diagnostic[] {
+  const first = new Map<string, BoxAt>();
+  const diagnostics: Diagnostic[] = [];
+  for (const at of boxes) {
+    const id = at.box.id;
+    if (id == null) continue;
+    const earlier = first.get(id);
+    if (!earlier) {
+      first.set(id, at);
+      continue;
+    }
+    diagnostics.push({
+      code: 'duplicate-id',
+      severity: 'error',
+      path: [...at.path, 'id'],
+      message: `Id "${id}" is already used by the box at ${formatPath(earlier.path)}; connections to it go to that box`,
+    });
+  }
+  return diagnostics;
+}
+
+const isPlaced = (box: NodeDef) => box.x != null && box.y != null && box.width != null && box.height != null;
+
+/** The boxes in `boxes` that are direct children of the box at `path`. */
+function childrenAt(boxes: BoxAt[], path: Path): BoxAt[] {
+  return boxes.filter(at => at.path.length === path.length + 2 && path.every((key, i) => at.path[i] === key));
+}
+
+/** Sibling boxes whose explicit positions and sizes make them overlap. */
+function overlappingBoxes(parents: BoxAt[], boxes: BoxAt[]): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  for (const parent of parents) {
+    const placed = childrenAt(boxes, parent.path).filter(({ box }) => isPlaced(box));
+    placed.forEach((b, i) => {
+      for (const a of placed.slice(0, i)) {
+        const overlaps = a.box.x! < b.box.x! + b.box.width! && b.box.x! < a.box.x! + a.box.width! &&
+                         a.box.y! < b.box.y! + b.box.height! && b.box.y! < a.box.y! + a.box.height!;
+        if (overlaps) {
+          diagnostics.push({
+            code: 'overlapping-boxes',
+            severity: 'warning',
+            path: b.path,
+            message: `${capitalize(describe(b))} overlaps ${describe(a)}`,
+          });
+        }
+      }
+    });
+  }
+  return diagnostics;
+}
+
+/**
+ * Problems only visible once laid out: text cut short to fit its box, and
+ * children sticking out of a parent (or the diagram) whose size was given
+ * explicitly. `source` and `laidOut` list the same boxes, before and after
+ * layout, with the root first.
+ */
+function layoutProblems(source: BoxAt[], laidOut: BoxAt[]): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  source.forEach((at, i) => {
+    const box = laidOut[i].box;
+    const isRoot = at.path.length === 0;
+    if (!isRoot && box.width != null && box.height != null && fitText(box as NodeDef & { width: number; height: number }).truncated) {
+      diagnostics.push({
+        code: 'truncated-text',
+        severity: 'warning',
+        path: at.path,
+        message: `Text in ${describe(at)} doesn't fit its ${box.width}×${box.height} size and is cut short`,
+      });
+    }
+    if (at.box.width == null && at.box.height == null) return;
+    // The diagram itself has no border around its boxes
+    const inner = isRoot ? 0 : 2;
+    for (const child of childrenAt(laidOut, at.path)) {
+      const right = (child.box.x ?? 0) + (child.box.width ?? 0);
+      const bottom = (child.box.y ?? 0) + (child.box.height ?? 0);
+      if (right <= (box.width ?? Infinity) - inner && bottom <= (box.height ?? Infinity) - inner) continue;
+      diagnostics.push({
+        code: 'child-overflow',
+        severity: 'warning',
+        path: child.path,
+        message: `${capitalize(describe(child))} doesn't fit inside ${isRoot ? 'the diagram' : describe(at)}, which is ${box.width ?? 'auto'}×${box.height ?? 'auto'}`,
+      });
+    }
+  });
+  return diagnostics;
+}
+
+/**
+ * Schema issues, with a failed union (like `children`, text or boxes)
+ * replaced by the issues of whichever alternative got furthest into the
+ * input, which is nearly always the one that was meant.
+ */
+function schemaIssues(issues: ZodIssue[]): ZodIssue[] {
+  return issues.flatMap(issue => {
+    if (issue.code !== 'invalid_union') return [issue];
+    const depth = (errors: ZodIssue[]) => Math.max(...errors.map(e => e.path.length));
+    const best = issue.unionErrors
+      .map(error => schemaIssues(error.issues))
+      .reduce((a, b) => (depth(b) > depth(a) ? b : a));
+    return best.length > 0 ? best : [issue];
+  });
+}
+
+/** What a path names in a sentence: its last key, with the key of the array for an item. */
+function subject(path: Path): string {
+  const key = path[path.length - 1];
+  if (key == null) return 'The diagram';
+  if (typeof key === 'string') return key;
+  const array = path[path.length - 2];
+  return typeof array === 'string' ? `${array}[${key}]` : `Item ${key}`;
+}
+
+const withArticle = (type: string) => (type === 'null' ? type : /^[aeiou]/.test(type) ? `an ${type}` : `a ${type}`);
+
+/** A schema issue as a sentence about its value, like "border must be one of single, double, …". */
+function issueMessage(issue: ZodIssue): string {
+  const name = subject(issue.path);
+  switch (issue.code) {
+    case 'invalid_type':
+      if (issue.received === 'undefined') return `${name} is required`;
+      return `${name} must be ${withArticle(issue.expected)}, not ${withArticle(issue.received)}`;
+    case 'invalid_enum_value':
+      return `${name} must be one of ${issue.options.join(', ')}, not ${JSON.stringify(issue.received)}`;
+    case 'too_small':
+      if (issue.type === 'string' && Number(issue.minimum) === 1) return `${name} can't be empty`;
+      if (issue.type === 'number') return `${name} must be ${issue.inclusive ? 'at least' : 'more than'} ${issue.minimum}`;
+      break;
+    case 'too_big':
+      if (issue.type === 'number') return `${name} must be ${issue.inclusive ? 'at most' : 'less than'} ${issue.maximum}`;
+      break;
+    case 'unrecognized_keys':
+      return `${name} has unknown ${issue.keys.length > 1 ? 'properties' : 'property'} ${issue.keys.map(key => `"${key}"`).join(', ')}`;
+    case 'custom':
+      if (issue.message.startsWith('Expected ')) return `${name} must be ${issue.message.slice('Expected '.length)}`;
+      break;
+  }
+  return `${name}: ${issue.message}`;
+}
+
+/**
+ * Whether a diagram matches the schema, as an `invalid-schema` error for
+ * each way it doesn't. Only these stop a diagram from being rendered at all.
+ * Border styles of the `theme` it's rendered with are accepted too.
+ */
+export function schemaDiagnostics(input: unknown, theme?: Theme): Diagnostic[] {
+  const parsed = withTheme(theme, () => DiagramSchema.safeParse(input));
+  if (parsed.success) return [];
+  return schemaIssues(parsed.error.issues).map(issue => ({
+    code: 'invalid-schema',
+    severity: 'error',
+    path: issue.path,
+    message: issueMessage(issue),
+  }));
+}
+
+/**
+ * Check a diagram for problems rendering would silently hide or get wrong:
+ * schema errors, connections to ids no box has, duplicate ids, explicitly
+ * placed boxes that overlap, text cut short to fit its box, and children
+ * that overflow an explicitly sized parent. Returns every problem found, in
+ * that order; a diagram that doesn't match the schema gets only its schema
+ * errors.
+ */
+export function validate(input: unknown, options?: RenderOptions): Diagnostic[] {
+  const theme = resolveTheme(options?.theme);
+  const problems = schemaDiagnostics(input, theme);
+  if (problems.length > 0) return problems;
+
+  const diagram = applyStyles(withTheme(theme, () => DiagramSchema.parse(input)));
+  const boxes = walkBoxes(diagram);
+  const all = [{ box: diagram, path: [] }, ...boxes];
+  const laidOut = autoLayout(diagram, options);
+  return [
+    ...unknownEndpoints(all, boxes),
+    ...duplicateIds(boxes),
+    ...overlappingBoxes(all, boxes),
+    ...layoutProblems(all, [{ box: laidOut, path: [] }, ...walkBoxes(laidOut)]),
+  ];
+}
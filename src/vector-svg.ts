@@ -0,0 +1,201 @@
+import type { BorderStyle, ConnectionDef, ConnectionPath, LineStyle, MarkerKind, NodeDef, Point, RenderOptions, Side, SvgOptions } from './schema.js';
+import { getChildBoxes } from './schema.js';
+import { DEFAULT_SVG_OPTIONS } from './constants.js';
+import type { CellOwner } from './canvas.js';
+import { drawDiagram, escapeXml, isConnection, svgGroup, svgStyle } from './render.js';
+import { displayWidth } from './text-width.js';
+import { resolveTheme } from './themes.js';
+
+// Vector SVG: boxes become <rect>s and connections <path>s with markers,
+// placed on the same character grid as the text output — a cell's centre
+// is where its glyph's strokes meet, so borders and lines run through cell
+// centres. Text comes from the drawn canvas, so it sits exactly where the
+// text output puts it.
+
+type PlacedBox = NodeDef & { x: number; y: number; width: number; height: number };
+
+const BORDER_DASHES: Partial<Record<BorderStyle, string>> = { dashed: '4 3' };
+const LINE_DASHES: Partial<Record<LineStyle, string>> = { dashed: '4 3', dotted: '1.5 2.5' };
+
+// Marker shapes in a 10×10 box whose right edge (x=10) touches the box the
+// line ends at; markers are drawn pointing along the line
+const MARKER_SHAPES: Record<MarkerKind, string> = {
+  triangle: '<path d="M0,1 L10,5 L0,9 z" />',
+  cross: '<path d="M2,1 L10,9 M10,1 L2,9" fill="none" />',
+  circle: '<circle cx="6" cy="5" r="3.5" fill="none" />',
+  diamond: '<path d="M0,5 L5,1 L10,5 L5,9 z" />',
+};
+
+// Two decimal places are plenty for pixel coordinates
+const num = (v: number) => Math.round(v * 100) / 100;
+
+function outward(side: Side): Point {
+  switch (side) {
+    case 'right': return { x: 1, y: 0 };
+    case 'left': return { x: -1, y: 0 };
+    case 'top': return { x: 0, y: -1 };
+    default: return { x: 0, y: 1 };
+  }
+}
+
+/** Every box with absolute coordinates, parents before their children. */
+function placeBoxes(nodes: NodeDef[], offsetX: number, offsetY: number, out: PlacedBox[] = []): PlacedBox[] {
+  for (const node of nodes) {
+    const box = { ...node, x: offsetX + (node.x ?? 0), y: offsetY + (node.y ?? 0), width: node.width!, height: node.height! };
+    out.push(box);
+    const children = getChildBoxes(node);
+    if (children) placeBoxes(children, box.x + 1, box.y + 1, out);
+  }
+  return out;
+}
+
+/** Cells a connection is drawn through, extended onto the borders of both boxes, reduced to its corners. */
+function connectionCorners(path: ConnectionPath): Point[] {
+  const { cells, fromSide, toSide } = path;
+  const first = cells[0];
+  const last = cells[cells.length - 1];
+  const start = outward(fromSide);
+  const end = outward(toSide);
+  const points = [
+    { x: first.x - start.x, y: first.y - start.y },
+    ...cells,
+    { x: last.x - end.x, y: last.y - end.y },
+  ];
+  return points.filter((p, i) => {
+    if (i === 0 || i === points.length - 1) return true;
+    const prev = points[i - 1];
+    const next = points[i + 1];
+    return !((prev.x === p.x && p.x === next.x) || (prev.y === p.y && p.y === next.y));
+  });
+}
+
+/** Markers a connection gets at its start and end, per its arrow mode. */
+function connectionMarkers(conn: ConnectionDef): { head?: MarkerKind; tail?: MarkerKind } {
+  const arrow = conn.arrow ?? 'end';
+  return {
+    ...(arrow === 'end' || arrow === 'both' ? { head: conn.head ?? 'triangle' } : {}),
+    ...(arrow === 'start' || arrow === 'both' ? { tail: conn.tail ?? 'triangle' } : {}),
+  };
+}
+
+/**
+ * Render a diagram as a vector SVG: boxes are rectangles with the border
+ * style's corner radius, dashes or weight, connections are paths with
+ * markers, and text is real text stretched to its width on the grid, so
+ * the image doesn't depend on the viewer's font metrics.
+ */
+export function renderVectorSvg(input: NodeDef, options?: SvgOptions, layoutOptions?: RenderOptions): string {
+  const opts = { ...DEFAULT_SVG_OPTIONS, ...resolveTheme(layoutOptions?.theme)?.svg, ...options };
+  const { diagram, canvas, paths } = drawDiagram(input, layoutOptions);
+  const cw = opts.charWidth;
+  const lh = opts.lineHeight;
+
+  // Drop the same blank columns on the left as the text output
+  const indent = canvas.indent();
+  const columns = canvas.contentWidth();
+  const px = (col: number) => num(opts.padding + (col - indent) * cw);
+  const py = (row: number) => num(opts.padding + row * lh);
+
+  const width = Math.ceil(columns * cw) + opts.padding * 2;
+  const height = canvas.height * lh + opts.padding * 2;
+
+  const boxes = placeBoxes(getChildBoxes(diagram) || [], 0, 0);
+  const structure = new Set<string>();
+
+  // Each box's and connection's elements go in its own group; nested boxes
+  // are drawn as copies, so boxes are matched up by where they sit
+  const boxKey = (box: NodeDef) => `${box.x},${box.y},${box.width},${box.height}`;
+  const groups = new Map<unknown, { owner: CellOwner; els: string[] }>();
+  const loose: string[] = [];
+
+  for (const box of boxes) {
+    const { x, y, width: w, height: h, border = 'single' } = box;
+    for (let col = x; col < x + w; col++) structure.add(`${col},${y}`).add(`${col},${y + h - 1}`);
+
+    const els: string[] = [];
+    if (box.shadow) {
+      els.push(`<rect class="shadow" x="${px(x + 1)}" y="${py(y + 1)}" width="${num((w + 1) * cw)}" height="${num(h * lh)}" />`);
+    }
+    const rect = (inset: number, extra: string) =>
+      `<rect class="box" x="${num(px(x + 0.5) + inset)}" y="${num(py(y + 0.5) + inset)}" width="${num((w - 1) * cw - inset * 2)}" height="${num((h - 1) * lh - inset * 2)}"${extra} />`;
+    const rx = border === 'rounded' ? ` rx="${num(cw)}"` : '';
+    const dash = BORDER_DASHES[border] ? ` stroke-dasharray="${BORDER_DASHES[border]}"` : '';
+    if (border === 'double') {
+      els.push(rect(-1.5, ''), rect(1.5, ''));
+    } else {
+      els.push(rect(0, `${rx}${dash}${border === 'bold' ? ' stroke-width="2"' : ''}`));
+    }
+    if (box.disabled) {
+      els.push(`<rect class="shade" x="${px(x + 1)}" y="${py(y + 1)}" width="${num((w - 2) * cw)}" height="${num((h - 2) * lh)}" />`);
+    }
+    groups.set(boxKey(box), { owner: box, els });
+  }
+
+  const markerKinds = new Set<MarkerKind>();
+  for (const { conn, path } of paths) {
+    for (const cell of path.cells) structure.add(`${cell.x},${cell.y}`);
+    const d = connectionCorners(path)
+      .map((p, i) => `${i === 0 ? 'M' : 'L'}${px(p.x + 0.5)},${py(p.y + 0.5)}`)
+      .join(' ');
+    const style = conn.style ?? 'solid';
+    const { head, tail } = connectionMarkers(conn);
+    if (head) markerKinds.add(head);
+    if (tail) markerKinds.add(tail);
+    const attrs = [
+      LINE_DASHES[style] && `stroke-dasharray="${LINE_DASHES[style]}"`,
+      style === 'bold' && 'stroke-width="2"',
+      style === 'double' && 'stroke-width="3"',
+      tail && `marker-start="url(#marker-${tail})"`,
+      head && `marker-end="url(#marker-${head})"`,
+    ].filter(Boolean).join(' ');
+    const els = [`<path class="line" d="${d}"${attrs ? ' ' + attrs : ''} />`];
+    // A double line is a thick stroke with a background-coloured one down its middle
+    if (style === 'double') els.push(`<path class="gap" d="${d}" />`);
+    groups.set(conn, { owner: conn, els });
+  }
+
+  // Text runs; those sitting on a border or line get a background patch
+  // behind them (and the space either side) so the stroke doesn't run through
+  canvas.grid.forEach((_, y) => canvas.textRuns(y).forEach(run => {
+    const runWidth = displayWidth(run.text);
+    const group = run.owner && groups.get(isConnection(run.owner) ? run.owner : boxKey(run.owner));
+    const els = group ? group.els : loose;
+    let onStructure = false;
+    for (let col = run.x; col < run.x + runWidth; col++) onStructure ||= structure.has(`${col},${y}`);
+    if (onStructure) {
+      els.push(`<rect class="mask" x="${px(run.x - 1)}" y="${py(y)}" width="${num((runWidth + 2) * cw)}" height="${num(lh)}" />`);
+    }
+    const style = run.attrs ? svgStyle(run.attrs) : '';
+    els.push(`<text x="${px(run.x)}" y="${py(y + 0.5)}" textLength="${num(runWidth * cw)}" lengthAdjust="spacingAndGlyphs"${style ? ` style="${style}"` : ''} xml:space="preserve">${escapeXml(run.text)}</text>`);
+  }));
+
+  const markerEls = [...markerKinds].map(kind =>
+    `    <marker id="marker-${kind}" class="marker" viewBox="0 0 10 10" refX="10" refY="5" markerUnits="userSpaceOnUse" markerWidth="${num(cw)}" markerHeight="${num(cw)}" orient="auto-start-reverse">${MARKER_SHAPES[kind]}</marker>`);
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="${width}" height="${height}">
+  <style>
+    text {
+      font-family: ${opts.fontFamily};
+      font-size: ${opts.fontSize}px;
+      dominant-baseline: central;
+      fill: ${opts.lightFg};
+    }
+    .box, .line { stroke: ${opts.lightFg}; fill: none; }
+    .box { fill: ${opts.lightBg}; }
+    .marker { fill: ${opts.lightFg}; stroke: ${opts.lightFg}; }
+    .gap { stroke: ${opts.lightBg}; fill: none; }
+    .mask { fill: ${opts.lightBg}; }
+    .shadow { fill: ${opts.lightFg}; opacity: 0.25; }
+    .shade { fill: ${opts.lightFg}; opacity: 0.1; }
+    @media (prefers-color-scheme: dark) {
+      text { fill: ${opts.darkFg}; }
+      .bg, .box, .mask { fill: ${opts.darkBg}; }
+      .box, .line, .marker { stroke: ${opts.darkFg}; }
+      .marker, .shadow, .shade { fill: ${opts.darkFg}; }
+      .gap { stroke: ${opts.darkBg}; }
+    }
+  </style>
+${markerEls.length > 0 ? `  <defs>\n${markerEls.join('\n')}\n  </defs>\n` : ''}  <rect class="bg" width="100%" height="100%" fill="${opts.lightBg}" rx="${opts.borderRadius}" />
+${[...[...groups.values()].flatMap(({ owner, els }) => svgGroup(owner, els)), ...loose].map(el => `  ${el}`).join('\n')}
+</svg>`;
+}
@@ -0,0 +1,67 @@
+import { displayWidth, graphemes, graphemeWidth, sliceToWidth } from './text-width.js';
+
+const ELLIPSIS = '…';
+
+/** Cut `text` to `width` columns, ending in an ellipsis if anything was dropped. */
+export function ellipsize(text: string, width: number): string {
+  if (displayWidth(text) <= width) return text;
+  if (width <= 0) return '';
+  return sliceToWidth(text, width - 1) + ELLIPSIS;
+}
+
+/**
+ * Split a word too long for a line into a first line and the rest. Latin
+ * text is hyphenated; between wide (CJK) characters, which may break
+ * anywhere, no hyphen is added.
+ */
+function breakWord(word: string, width: number): [string, string] {
+  const full = sliceToWidth(word, width);
+  const chars = graphemes(full);
+  if (chars.length > 0 && graphemeWidth(chars[chars.length - 1]) === 2) {
+    return [full, word.slice(full.length)];
+  }
+  const head = sliceToWidth(word, width - 1);
+  return [head + '-', word.slice(head.length)];
+}
+
+/**
+ * Word-wrap one line of text to lines of at most `width` columns. Words
+ * longer than a whole line are broken across lines (see `breakWord`); with
+ * no room for a hyphen they're cut with an ellipsis instead.
+ */
+export function wrapText(text: string, width: number): string[] {
+  if (displayWidth(text) <= width) return [text];
+  if (width < 1) return [''];
+  if (width < 3) return [ellipsize(text, width)];
+
+  const lines: string[] = [];
+  let line = '';
+  for (let word of text.split(/\s+/).filter(Boolean)) {
+    if (line && displayWidth(line) + 1 + displayWidth(word) <= width) {
+      line += ' ' + word;
+      continue;
+    }
+    if (line) lines.push(line);
+    while (displayWidth(word) > width) {
+      const [head, rest] = breakWord(word, width);
+      lines.push(head);
+      word = rest;
+    }
+    line = word;
+  }
+  if (line) lines.push(line);
+  return lines.length > 0 ? lines : [''];
+}
+
+/** Wrap every line of a box's text content to its inner width. */
+export function wrapLines(lines: string[], width: number): string[] {
+  return lines.flatMap(l => wrapText(l, width));
+}
+
+/**
+ * Lines of a box title in a box `boxWidth` wide. The first line sits on the
+ * top border; the rest run just inside it.
+ */
+export function wrapTitle(title: string, boxWidth: number): string[] {
+  return wrapText(title, boxWidth - 6);
+}
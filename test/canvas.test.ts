@@ -1,6 +1,7 @@
 import { describe, it } from 'node:test';
 import assert from 'node:assert/strict';
 import { Canvas } from '../src/canvas.js';
+import { WIDE_CONTINUATION } from '../src/constants.js';
 
 describe('Canvas', () => {
   it('has correct dimensions', () => {
@@ -44,6 +45,14 @@ describe('Canvas', () => {
     assert.equal(c.get(4, 0), '!');
   });
 
+  it('setLine records arms that a plain set clears', () => {
+    const c = new Canvas(5, 5);
+    c.setLine(1, 1, '─', { left: 'light', right: 'light' });
+    assert.deepEqual(c.getArms(1, 1), { left: 'light', right: 'light' });
+    c.set(1, 1, 'x');
+    assert.equal(c.getArms(1, 1), undefined);
+  });
+
   it('toString trims trailing whitespace per line', () => {
     const c = new Canvas(10, 2);
     c.set(0, 0, 'A');
@@ -61,4 +70,129 @@ describe('Canvas', () => {
     assert.equal(lines[0], 'X');
     assert.equal(lines[1], 'Y');
   });
+
+  it('writes wide characters across two cells', () => {
+    const c = new Canvas(8, 1);
+    c.writeText(0, 0, '日本x');
+    assert.equal(c.get(0, 0), '日');
+    assert.equal(c.get(1, 0), WIDE_CONTINUATION);
+    assert.equal(c.get(2, 0), '本');
+    assert.equal(c.get(4, 0), 'x');
+    assert.equal(c.toString(), '日本x');
+  });
+
+  it('keeps grapheme clusters in one cell', () => {
+    const c = new Canvas(6, 1);
+    c.writeText(0, 0, 'e\u0301👨‍👩‍👧!');
+    assert.equal(c.get(0, 0), 'e\u0301');
+    assert.equal(c.get(1, 0), '👨‍👩‍👧');
+    assert.equal(c.get(3, 0), '!');
+  });
+
+  it('blanks the rest of a wide character that is partly overwritten', () => {
+    const c = new Canvas(4, 1);
+    c.writeText(0, 0, '日本');
+    c.set(1, 0, '│');
+    c.set(2, 0, '─');
+    assert.equal(c.get(0, 0), ' ');
+    assert.equal(c.get(3, 0), ' ');
+  });
+
+  it('renders strike and underline as combining marks in plain text', () => {
+    const c = new Canvas(4, 1);
+    c.writeText(0, 0, 'abcd');
+    c.setAttributes(1, 0, { strike: true });
+    c.setAttributes(2, 0, { underline: true, bold: true });
+    assert.equal(c.toString(), 'ab\u0336c\u0332d');
+    assert.equal(c.get(1, 0), 'b');
+  });
+
+  it('renders attributes as SGR sequences for terminals', () => {
+    const c = new Canvas(4, 1);
+    c.writeText(0, 0, 'abcd');
+    c.setAttributes(1, 0, { bold: true, strike: true });
+    c.setAttributes(2, 0, { bold: true, strike: true });
+    assert.equal(c.toAnsi(), 'a\x1b[1;9mbc\x1b[0md');
+  });
+
+  it('drops attributes when a cell is overwritten', () => {
+    const c = new Canvas(2, 1);
+    c.set(0, 0, 'a');
+    c.setAttributes(0, 0, { dim: true });
+    c.set(0, 0, 'b');
+    assert.equal(c.getAttributes(0, 0), undefined);
+  });
+
+  it('reads combining marks back into attributes', () => {
+    const c = Canvas.fromText('x\u0336日\u0332\nyz');
+    assert.equal(c.width, 3);
+    assert.equal(c.get(0, 0), 'x');
+    assert.deepEqual(c.getAttributes(0, 0), { strike: true });
+    assert.equal(c.get(1, 0), '日');
+    assert.deepEqual(c.getAttributes(1, 0), { underline: true });
+    assert.equal(c.toString(), 'x\u0336日\u0332\nyz');
+  });
+
+  it('draws with the pen and keeps a cell background underneath', () => {
+    const c = new Canvas(3, 1);
+    c.setAttributes(1, 0, { bg: 'blue' });
+    c.pen = { fg: 'red' };
+    c.writeText(0, 0, 'ab');
+    assert.deepEqual(c.getAttributes(0, 0), { fg: 'red' });
+    assert.deepEqual(c.getAttributes(1, 0), { bg: 'blue', fg: 'red' });
+    c.pen = undefined;
+    c.set(1, 0, 'x');
+    assert.deepEqual(c.getAttributes(1, 0), { bg: 'blue' });
+  });
+
+  it('collapses equally coloured cells into one SGR run', () => {
+    const c = new Canvas(4, 1);
+    c.writeText(0, 0, 'abcd');
+    c.setAttributes(0, 0, { fg: 'red', bg: 208 });
+    c.setAttributes(1, 0, { bg: 208, fg: 'red' });
+    c.setAttributes(2, 0, { fg: '#00ff00' });
+    assert.equal(c.toAnsi(), '\x1b[31;48;5;208mab\x1b[0m\x1b[38;2;0;255;0mc\x1b[0md');
+    assert.equal(c.toString(), 'abcd');
+  });
+
+  it('tracks which cells hold written text', () => {
+    const c = new Canvas(10, 1);
+    c.writeText(0, 0, ' ab  cd ');
+    c.set(2, 0, '─');
+    c.setAttributes(6, 0, { bold: true });
+    assert.ok(c.isText(0, 0));
+    assert.ok(!c.isText(2, 0));
+    assert.deepEqual(c.textRuns(0), [
+      { x: 1, text: 'a' },
+      { x: 5, text: 'c' },
+      { x: 6, text: 'd', attrs: { bold: true } },
+    ]);
+  });
+
+  it('transliterates drawn glyphs but not written text', () => {
+    const box = { id: 'a' };
+    const c = new Canvas(5, 1);
+    c.owner = box;
+    c.set(0, 0, '┌');
+    c.setAttributes(0, 0, { bold: true });
+    c.writeText(1, 0, '─┐');
+    c.set(4, 0, '─');
+    c.transliterate(glyph => (glyph === '┌' ? '+' : '-'));
+    assert.equal(c.toString(), '+─┐ -');
+    assert.deepEqual(c.getAttributes(0, 0), { bold: true });
+    assert.equal(c.getOwner(0, 0), box);
+  });
+
+  it('records which box or connection drew each cell', () => {
+    const box = { id: 'a' };
+    const c = new Canvas(6, 1);
+    c.owner = box;
+    c.writeText(0, 0, 'ab');
+    c.owner = undefined;
+    c.set(3, 0, 'c');
+    assert.equal(c.getOwner(0, 0), box);
+    assert.equal(c.getOwner(3, 0), undefined);
+    assert.deepEqual(c.runs(0), [{ text: 'ab c' }]);
+    assert.deepEqual(c.runs(0, 0, { byOwner: true }), [{ text: 'ab', owner: box }, { text: ' c' }]);
+  });
 });
@@ -0,0 +1,54 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { asciiCell, asciiGlyph } from '../src/charset.js';
+import { ARROW_HEADS, BORDERS, HOP_CHAR, LINE_STYLES, MARKERS, SHADOW_CHAR } from '../src/constants.js';
+import { glyphArms } from '../src/junctions.js';
+
+describe('asciiGlyph', () => {
+  it('maps borders to +, - and |', () => {
+    for (const style of ['single', 'bold', 'rounded'] as const) {
+      const { tl, tr, bl, br, h, v } = BORDERS[style];
+      assert.deepEqual([tl, tr, bl, br, h, v].map(asciiGlyph), ['+', '+', '+', '+', '-', '|'], style);
+    }
+    assert.equal(asciiGlyph(BORDERS.double.h), '=');
+    assert.equal(asciiGlyph(BORDERS.double.v), '|');
+  });
+
+  it('keeps dashed and dotted lines apart from solid ones', () => {
+    assert.deepEqual([LINE_STYLES.dashed.h, LINE_STYLES.dashed.v, LINE_STYLES.dotted.h, LINE_STYLES.dotted.v].map(asciiGlyph), ['-', ':', '.', ':']);
+  });
+
+  it('maps arrow heads, markers and shadows', () => {
+    assert.deepEqual(Object.values(ARROW_HEADS).map(asciiGlyph), ['>', '<', 'v', '^']);
+    assert.deepEqual(Object.values(MARKERS).map(asciiGlyph), ['x', 'o', '*']);
+    assert.equal(asciiGlyph(SHADOW_CHAR), '#');
+  });
+
+  it('maps every junction glyph to ASCII by its arms', () => {
+    for (let code = 0x2500; code <= 0x257f; code++) {
+      const glyph = String.fromCodePoint(code);
+      const arms = glyphArms(glyph);
+      if (!arms) continue;
+      const ascii = asciiGlyph(glyph);
+      assert.match(ascii, /^[ -~]$/, glyph);
+      const vertical = arms.up ?? arms.down;
+      const horizontal = arms.left ?? arms.right;
+      if (vertical && horizontal) assert.equal(ascii, '+', glyph);
+    }
+  });
+
+  it('leaves anything else alone', () => {
+    assert.equal(asciiGlyph('a'), 'a');
+    assert.equal(asciiGlyph(')'), ')');
+  });
+});
+
+describe('asciiCell', () => {
+  it('turns a hop into a crossing', () => {
+    assert.equal(asciiCell(HOP_CHAR, { up: 'light', down: 'light', left: 'light', right: 'light' }), '+');
+  });
+
+  it('leaves a ) that is no line alone', () => {
+    assert.equal(asciiCell(')'), ')');
+  });
+});
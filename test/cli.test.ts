@@ -1,8 +1,9 @@
 import { describe, it } from 'node:test';
 import assert from 'node:assert/strict';
-import { execFileSync } from 'node:child_process';
-import { readFileSync } from 'node:fs';
-import { resolve } from 'node:path';
+import { execFileSync, spawn } from 'node:child_process';
+import { mkdtempSync, readFileSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
 
 const CLI = resolve('src/cli.ts');
 const FIXTURES = resolve('fixtures');
@@ -102,5 +103,249 @@ describe('CLI', () => {
       const out = run(['--svg'], json);
       assert.ok(out.includes('<svg'));
     });
+
+    it('--svg=vector draws shapes instead of box-drawing text', () => {
+      const json = readFileSync(`${FIXTURES}/example.json`, 'utf-8');
+      const out = run(['--svg=vector'], json);
+      assert.ok(out.includes('<rect class="box"'));
+      assert.ok(!out.includes('─'));
+    });
+
+    it('--html writes a page, --html=fragment just the diagram', () => {
+      const json = readFileSync(`${FIXTURES}/example.json`, 'utf-8');
+      assert.ok(run(['--html'], json).startsWith('<!DOCTYPE html>'));
+      assert.ok(run(['--html=fragment'], json).startsWith('<div class="box-of-rain">'));
+    });
+
+    it('--ascii draws with plain ASCII', () => {
+      const out = run(['--ascii', `${FIXTURES}/example.json`]);
+      assert.ok(out.includes('Frontend'));
+      assert.match(out, /^[\x00-\x7f]*$/);
+    });
+
+    it('--theme loads a theme from a JSON file', () => {
+      const file = join(mkdtempSync(join(tmpdir(), 'bor-')), 'house.json');
+      writeFileSync(file, JSON.stringify({ borders: { house: { tl: '╒', tr: '╕', bl: '╘', br: '╛', h: '═', v: '│' } }, arrowHeads: { left: '➤' } }));
+      const json = JSON.stringify({
+        children: [{ id: 'a', children: ['Hi'], border: 'house' }, { id: 'b', children: ['There'] }],
+        connections: [{ from: 'a', to: 'b' }],
+      });
+      const out = run([`--theme=${file}`], json);
+      assert.ok(out.includes('╒══'));
+      assert.ok(out.includes('➤'));
+    });
+
+    it('rejects an invalid theme file', () => {
+      const file = join(mkdtempSync(join(tmpdir(), 'bor-')), 'bad.json');
+      writeFileSync(file, JSON.stringify({ shadow: '' }));
+      assert.throws(() => run([`--theme=${file}`], '{}'), /Invalid theme/);
+    });
+
+    it('--color=always writes colours even when piped', () => {
+      const json = JSON.stringify({ children: [{ id: 'a', children: ['Hi'], color: 'red' }] });
+      assert.ok(run(['--color=always'], json).includes('\x1b[31m'));
+      assert.ok(run(['--color'], json).includes('\x1b[31m'));
+    });
+
+    it('--color=auto and --color=never write plain text when piped', () => {
+      const json = JSON.stringify({ children: [{ id: 'a', children: ['Hi'], color: 'red' }] });
+      assert.ok(!run([], json).includes('\x1b'));
+      assert.ok(!run(['--color=never'], json).includes('\x1b'));
+    });
+
+    it('rejects an unknown --color value', () => {
+      assert.throws(() => run(['--color=sometimes'], '{}'), /Invalid --color value/);
+    });
+  });
+
+  describe('errors', () => {
+    function stderr(args: string[], stdin?: string): string {
+      try {
+        run(args, stdin);
+      } catch (err) {
+        return (err as { stderr: string }).stderr;
+      }
+      assert.fail('expected the CLI to fail');
+    }
+
+    it('reports schema errors at their line and column with the code there', () => {
+      const file = join(mkdtempSync(join(tmpdir(), 'bor-')), 'a.yaml');
+      writeFileSync(file, 'children:\n  - id: api\n    children: [API]\n  - id: db\n    border: wavy\n');
+      assert.equal(stderr([file]), [
+        `${file}:5:13: error: border must be one of single, double, bold, rounded, dashed`,
+        '  4 |   - id: db',
+        '> 5 |     border: wavy',
+        '    |             ^',
+        '',
+      ].join('\n'));
+    });
+
+    it('maps legacy boxes and content back to where they were written', () => {
+      const json = '{\n  "boxes": [\n    {"id": "a", "content": ["A", 3]}\n  ]\n}';
+      const out = stderr([], json);
+      assert.match(out, /^<stdin>:3:34: error: content\[1\] must be a string, not a number\n/);
+      assert.match(out, /\n<stdin>:3:17: warning: `content` is deprecated, use `children`\n/);
+    });
+
+    it('reports syntax errors at their line and column', () => {
+      assert.equal(stderr([], '{\n  "children": [,]\n}'), [
+        '<stdin>:2:16: error: Unexpected ","',
+        '  1 | {',
+        '> 2 |   "children": [,]',
+        '    |                ^',
+        '',
+      ].join('\n'));
+      assert.match(stderr(['--yaml'], 'children: [a, b\n'), /^<stdin>:2:1: error: /);
+    });
+  });
+
+  describe('--watch', () => {
+    it('redraws on change and shows problems in place of the diagram', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'bor-'));
+      const file = join(dir, 'a.json');
+      const theme = join(dir, 'house.json');
+      const box = (text: string, border = 'single') => JSON.stringify({ children: [{ id: 'a', children: [text], border }] });
+      writeFileSync(file, box('First'));
+      writeFileSync(theme, JSON.stringify({ borders: { house: { tl: '╒', tr: '╕', bl: '╘', br: '╛', h: '═', v: '│' } } }));
+
+      const child = spawn('node', ['--import', 'tsx', CLI, '--watch', `--theme=${theme}`, file]);
+      let out = '';
+      child.stdout.on('data', chunk => { out += chunk; });
+      const drawn = (text: string) => new Promise<void>((done, fail) => {
+        const started = Date.now();
+        const poll = setInterval(() => {
+          if (out.includes(text)) {
+            clearInterval(poll);
+            done();
+          } else if (Date.now() - started > 10_000) {
+            clearInterval(poll);
+            fail(new Error(`${JSON.stringify(text)} not drawn in:\n${out}`));
+          }
+        }, 50);
+      });
+
+      try {
+        await drawn('First');
+        assert.ok(out.includes(`Watching ${file}, ${theme}`));
+        writeFileSync(file, '{"children": [');
+        await drawn('error: Unexpected end of input');
+        writeFileSync(file, box('Second', 'house'));
+        await drawn('Second');
+        assert.ok(out.includes('╒═'));
+        assert.equal(child.exitCode, null);
+      } finally {
+        child.kill();
+      }
+    });
+
+    it('needs a file', () => {
+      assert.throws(() => run(['--watch'], '{}'), /--watch needs a file/);
+    });
+  });
+
+  describe('schema', () => {
+    it('prints the JSON Schema for diagram files', () => {
+      const schema = JSON.parse(run(['schema']));
+      assert.equal(schema.$ref, '#/definitions/node');
+      assert.deepEqual(schema, JSON.parse(readFileSync('diagram.schema.json', 'utf-8')));
+    });
+
+    it('accepts the border styles of a --theme', () => {
+      const file = join(mkdtempSync(join(tmpdir(), 'bor-')), 'house.json');
+      writeFileSync(file, JSON.stringify({ borders: { house: { tl: '╒', tr: '╕', bl: '╘', br: '╛', h: '═', v: '│' } } }));
+      const schema = JSON.parse(run(['schema', `--theme=${file}`]));
+      assert.ok(schema.definitions.node.properties.border.enum.includes('house'));
+    });
+  });
+
+  describe('lint', () => {
+    function lint(files: Record<string, string>, flags: string[] = []): { status: number; stdout: string } {
+      const dir = mkdtempSync(join(tmpdir(), 'bor-'));
+      const paths = Object.entries(files).map(([name, text]) => {
+        writeFileSync(join(dir, name), text);
+        return join(dir, name);
+      });
+      try {
+        return { status: 0, stdout: run(['lint', ...flags, ...paths]) };
+      } catch (err) {
+        const { status, stdout } = err as { status: number; stdout: string };
+        return { status, stdout };
+      }
+    }
+
+    it('passes the fixtures', () => {
+      assert.equal(run(['lint', `${FIXTURES}/example.json`, `${FIXTURES}/pipeline.yaml`, `${FIXTURES}/example.mmd`]), '');
+    });
+
+    it('reports problems at their line and column and exits non-zero', () => {
+      const { status, stdout } = lint({
+        'a.yaml': 'children:\n  - id: api\n    children: [API]\n  - id: db\n    border: wavy\n',
+        'b.json': '{\n  "children": [{"id": "a", "children": ["A"]}],\n  "connections": [{"from": "a", "to": "b"}]\n}\n',
+        'c.json': '{\n  "children": [,]\n}\n',
+      });
+      assert.equal(status, 1);
+      const lines = stdout.trim().split('\n');
+      assert.match(lines[0], /a\.yaml:5:13: error: border must be one of single, double, .* \[invalid-schema\]$/);
+      assert.match(lines[1], /b\.json:3:39: error: No box has id "b".* \[unknown-endpoint\]$/);
+      assert.match(lines[2], /c\.json:2:16: error: Unexpected "," \[invalid-syntax\]$/);
+    });
+
+    it('reports Mermaid parse errors', () => {
+      const { status, stdout } = lint({ 'a.mmd': 'pie\n' });
+      assert.equal(status, 1);
+      assert.match(stdout, /a\.mmd: error: Unsupported diagram type: pie \[invalid-syntax\]/);
+    });
+
+    it('--format json prints diagnostics with file, line and column', () => {
+      const { status, stdout } = lint({ 'a.json': '{"children": [{"id": "a", "shadow": "yes"}]}' }, ['--format', 'json']);
+      assert.equal(status, 1);
+      const [d] = JSON.parse(stdout);
+      assert.match(d.file, /a\.json$/);
+      assert.deepEqual({ ...d, file: undefined }, {
+        file: undefined,
+        line: 1,
+        column: 37,
+        code: 'invalid-schema',
+        severity: 'error',
+        path: ['children', 0, 'shadow'],
+        message: 'shadow must be a boolean, not a string',
+      });
+    });
+
+    it('exits zero when there are only warnings', () => {
+      const { status, stdout } = lint({
+        'a.json': JSON.stringify({ children: [{ id: 'a', children: ['A much longer line'], x: 0, y: 0, width: 8, height: 3 }] }),
+      });
+      assert.equal(status, 0);
+      assert.match(stdout, /warning: .* \[truncated-text\]/);
+    });
+
+    it('accepts the border styles of a --theme file', () => {
+      const theme = join(mkdtempSync(join(tmpdir(), 'bor-')), 'house.json');
+      writeFileSync(theme, JSON.stringify({ borders: { house: { tl: '╒', tr: '╕', bl: '╘', br: '╛', h: '═', v: '│' } } }));
+      const files = { 'a.json': JSON.stringify({ children: [{ id: 'a', children: ['A'], border: 'house' }] }) };
+      assert.equal(lint(files).status, 1);
+      assert.deepEqual(lint(files, [`--theme=${theme}`]), { status: 0, stdout: '' });
+    });
+
+    it('reports a file it can\'t read and checks the rest', () => {
+      const { status, stdout } = lint({ 'b.json': '{"connections": [{"from": "a", "to": "b"}]}' }, [join(tmpdir(), 'bor-missing.json')]);
+      assert.equal(status, 1);
+      const lines = stdout.trim().split('\n');
+      assert.match(lines[0], /bor-missing\.json: error: ENOENT: .* \[unreadable-file\]$/);
+      assert.match(lines[1], /b\.json:1:27: error: No box has id "a".* \[unknown-endpoint\]$/);
+    });
+
+    it('warns about legacy keys where they were written', () => {
+      const { status, stdout } = lint({ 'a.json': '{\n  "boxes": [{"id": "a", "content": "A"}]\n}' });
+      assert.equal(status, 0);
+      const lines = stdout.trim().split('\n');
+      assert.match(lines[0], /a\.json:2:3: warning: `boxes` is deprecated, use `children` \[deprecated-key\]$/);
+      assert.match(lines[1], /a\.json:2:25: warning: `content` is deprecated, use `children` \[deprecated-key\]$/);
+    });
+
+    it('rejects an unknown --format value', () => {
+      assert.throws(() => run(['lint', '--format=xml', `${FIXTURES}/example.json`]), /Invalid --format value/);
+    });
   });
 });
@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { colorPen, colorSgr, cssColor, hexToRgb, isColor } from '../src/color.js';
+
+describe('isColor', () => {
+  it('accepts names, palette indices and hex strings', () => {
+    for (const color of ['red', 'Bright-Blue', 'grey', 0, 255, '#fff', '#1a2B3c']) {
+      assert.ok(isColor(color), String(color));
+    }
+  });
+
+  it('rejects anything else', () => {
+    for (const color of ['purple', '#ffff', 'fff', 256, -1, 1.5, null]) {
+      assert.ok(!isColor(color), String(color));
+    }
+  });
+});
+
+describe('colorSgr', () => {
+  it('uses the basic codes for named colours', () => {
+    assert.equal(colorSgr('red', 'fg'), '31');
+    assert.equal(colorSgr('bright-red', 'fg'), '91');
+    assert.equal(colorSgr('white', 'bg'), '47');
+    assert.equal(colorSgr('gray', 'bg'), '100');
+  });
+
+  it('uses the 256-colour form for palette indices', () => {
+    assert.equal(colorSgr(208, 'fg'), '38;5;208');
+    assert.equal(colorSgr(17, 'bg'), '48;5;17');
+  });
+
+  it('uses the truecolor form for hex', () => {
+    assert.deepEqual(hexToRgb('#0a0'), [0, 170, 0]);
+    assert.equal(colorSgr('#ff8000', 'fg'), '38;2;255;128;0');
+    assert.equal(colorSgr('#0a0', 'bg'), '48;2;0;170;0');
+  });
+});
+
+describe('colorPen', () => {
+  it('leaves out colours that are not given', () => {
+    assert.equal(colorPen(), undefined);
+    assert.deepEqual(colorPen('red'), { fg: 'red' });
+    assert.deepEqual(colorPen(undefined, 4), { bg: 4 });
+  });
+});
+
+describe('cssColor', () => {
+  it('maps every kind of colour to CSS hex', () => {
+    assert.equal(cssColor('red'), '#cd0000');
+    assert.equal(cssColor('bright-white'), '#ffffff');
+    assert.equal(cssColor('#ABC'), '#abc');
+    assert.equal(cssColor(4), '#0000ee');
+    assert.equal(cssColor(208), '#ff8700');
+    assert.equal(cssColor(244), '#808080');
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { assignCoordinates } from '../src/coordinates.js';
+
+interface N {
+  id: string;
+  size: number;
+}
+
+const n = (id: string, size = 3): N => ({ id, size });
+const opts = { size: (v: N) => v.size, gap: () => 1, origin: 0 };
+const mid = (start: Map<N, number>, v: N) => start.get(v)! + Math.floor(v.size / 2);
+
+describe('assignCoordinates', () => {
+  it('lines up a chain of differently sized nodes', () => {
+    const a = n('a', 3);
+    const b = n('b', 7);
+    const c = n('c', 5);
+    const start = assignCoordinates([[a], [b], [c]], [[a, b], [b, c]], opts);
+    assert.equal(mid(start, a), mid(start, b));
+    assert.equal(mid(start, b), mid(start, c));
+  });
+
+  it('keeps a straight chain when a sibling fans out beside it', () => {
+    const a = n('a');
+    const b = n('b');
+    const c = n('c');
+    const d = n('d');
+    const start = assignCoordinates([[a], [b, d], [c]], [[a, b], [a, d], [b, c]], opts);
+    assert.equal(mid(start, b), mid(start, c));
+    assert.ok(start.get(d)! >= start.get(b)! + 3 + 1);
+  });
+
+  it('centres a node between two neighbours', () => {
+    const a = n('a');
+    const b = n('b');
+    const c = n('c');
+    const start = assignCoordinates([[a, b], [c]], [[a, c], [b, c]], opts);
+    assert.equal(start.get(a), 0);
+    assert.equal(start.get(b), 4);
+    assert.equal(start.get(c), 2);
+  });
+
+  it('keeps the gap between neighbours in a layer', () => {
+    const a = n('a');
+    const b = n('b');
+    const start = assignCoordinates([[a, b]], [], { ...opts, gap: (x: N) => (x === a ? 3 : 1) });
+    assert.equal(start.get(b)! - start.get(a)!, 3 + 3);
+  });
+
+  it('lines up custom anchor offsets', () => {
+    const a = n('a', 9);
+    const b = n('b', 3);
+    const start = assignCoordinates([[a], [b]], [[a, b]], { ...opts, anchor: (v: N) => (v === a ? 7 : 1) });
+    assert.equal(start.get(a)! + 7, start.get(b)! + 1);
+  });
+
+  it('starts at the origin and skips holes in the layer list', () => {
+    const a = n('a');
+    const b = n('b', 5);
+    const layers: N[][] = [];
+    layers[0] = [a];
+    layers[2] = [b];
+    const start = assignCoordinates(layers, [[a, b]], { ...opts, origin: 1 });
+    assert.equal(Math.min(start.get(a)!, start.get(b)!), 1);
+    assert.equal(mid(start, a), mid(start, b));
+  });
+
+  it('keeps pinned nodes and moves their neighbours out of the way', () => {
+    const a = n('a');
+    const b = n('b');
+    const c = n('c');
+    const pinned = new Map([[b, 6]]);
+    const start = assignCoordinates([[b, a], [c]], [[a, c]], { ...opts, pinned });
+    assert.equal(start.get(b), 6);
+    assert.equal(start.get(a), 10);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { feedbackArcs } from '../src/cycles.js';
+
+describe('feedbackArcs', () => {
+  it('reverses nothing in an acyclic graph', () => {
+    const arcs = feedbackArcs(['a', 'b', 'c'], [['a', 'b'], ['b', 'c'], ['a', 'c']]);
+    assert.equal(arcs.size, 0);
+  });
+
+  it('reverses the closing edge of a retry loop', () => {
+    const edges: Array<[string, string]> = [['client', 'server'], ['server', 'worker'], ['worker', 'server'], ['worker', 'done']];
+    const arcs = feedbackArcs(['client', 'server', 'worker', 'done'], edges);
+    assert.deepEqual([...arcs], [2]);
+  });
+
+  it('breaks a request/response pair in favour of the first node', () => {
+    const arcs = feedbackArcs(['a', 'b'], [['a', 'b'], ['b', 'a']]);
+    assert.deepEqual([...arcs], [1]);
+  });
+
+  it('reverses a single edge of a longer cycle', () => {
+    const arcs = feedbackArcs(['a', 'b', 'c', 'd'], [['a', 'b'], ['b', 'c'], ['c', 'd'], ['d', 'a']]);
+    assert.equal(arcs.size, 1);
+  });
+
+  it('is deterministic for the same input', () => {
+    const nodes = ['a', 'b', 'c', 'd', 'e'];
+    const edges: Array<[string, string]> = [['a', 'b'], ['b', 'c'], ['c', 'a'], ['c', 'd'], ['d', 'e'], ['e', 'c']];
+    assert.deepEqual([...feedbackArcs(nodes, edges)], [...feedbackArcs(nodes, edges)]);
+  });
+
+  it('ignores self-loops and unknown nodes', () => {
+    const arcs = feedbackArcs(['a', 'b'], [['a', 'a'], ['a', 'b'], ['b', 'zzz']]);
+    assert.equal(arcs.size, 0);
+  });
+});
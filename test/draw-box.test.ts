@@ -109,4 +109,94 @@ describe('drawBox', () => {
     drawBox(c, { x: 0, y: 0, width: 12, height: 5, border: 'nonexistent' as any });
     assert.equal(c.get(0, 0), '┌');
   });
+
+  it('wraps text that is wider than the box', () => {
+    const c = new Canvas(12, 5);
+    drawBox(c, { x: 0, y: 0, width: 12, height: 5, children: ['Hello big world'] });
+    const rows = c.toString().split('\n');
+    assert.equal(rows[1], '│  Hello   │');
+    assert.equal(rows[2], '│   big    │');
+    assert.equal(rows[3], '│  world   │');
+  });
+
+  it('ends text that runs out of rows in an ellipsis', () => {
+    const c = new Canvas(10, 3);
+    drawBox(c, { x: 0, y: 0, width: 10, height: 3, children: ['one two three'] });
+    assert.equal(c.toString().split('\n')[1], '│  one…  │');
+  });
+
+  it('continues a wrapped title just inside the top border', () => {
+    const c = new Canvas(16, 6);
+    drawBox(c, { x: 0, y: 0, width: 16, height: 6, title: 'Edge collectors', children: ['Hi'] });
+    const rows = c.toString().split('\n');
+    assert.equal(rows[0], '┌── Edge ──────┐');
+    assert.equal(rows[1], '│   collectors │');
+    assert.ok(rows[3].includes('Hi'));
+  });
+
+  it('aligns text left or right inside the padding', () => {
+    const c = new Canvas(12, 4);
+    drawBox(c, { x: 0, y: 0, width: 12, height: 4, align: 'left', children: ['ab'] });
+    assert.equal(c.toString().split('\n')[1], '│ ab       │');
+    const r = new Canvas(12, 4);
+    drawBox(r, { x: 0, y: 0, width: 12, height: 4, align: 'right', paddingX: 2, children: ['ab'] });
+    assert.equal(r.toString().split('\n')[1], '│      ab  │');
+  });
+
+  it('places text at the top or bottom per valign', () => {
+    const c = new Canvas(8, 7);
+    drawBox(c, { x: 0, y: 0, width: 8, height: 7, valign: 'top', children: ['T'] });
+    assert.equal(c.get(3, 1), 'T');
+    const b = new Canvas(8, 7);
+    drawBox(b, { x: 0, y: 0, width: 8, height: 7, valign: 'bottom', paddingY: 1, children: ['B'] });
+    assert.equal(b.get(3, 4), 'B');
+  });
+
+  it('keeps the right border in place around wide text', () => {
+    const c = new Canvas(12, 3);
+    drawBox(c, { x: 0, y: 0, width: 12, height: 3, children: ['日本 🚀'] });
+    assert.equal(c.toString().split('\n')[1], '│ 日本 🚀  │');
+  });
+
+  it('marks a disabled box with cell attributes instead of extra code points', () => {
+    const c = new Canvas(12, 5);
+    drawBox(c, { x: 0, y: 0, width: 12, height: 5, title: 'Off', disabled: true, children: ['Hi'] });
+    assert.equal(c.get(4, 0), 'O');
+    assert.deepEqual(c.getAttributes(4, 0), { strike: true });
+    assert.equal(c.getAttributes(2, 0), undefined);
+    assert.deepEqual(c.getAttributes(5, 2), { dim: true });
+    assert.equal(c.get(1, 1), SHADOW_CHAR);
+  });
+
+  it('shades a disabled box without taking over its children\'s cells', () => {
+    const c = new Canvas(14, 7);
+    const parent = {
+      x: 0, y: 0, width: 14, height: 7, disabled: true,
+      children: [{ id: 'child', x: 1, y: 1, width: 10, height: 3 }],
+    };
+    drawBox(c, parent);
+    assert.equal(c.get(4, 3), SHADOW_CHAR);
+    assert.equal(c.getOwner(4, 3)?.id, 'child');
+    assert.equal(c.getOwner(1, 1), parent);
+  });
+
+  it('colours the border, the text and the background separately', () => {
+    const c = new Canvas(12, 3);
+    drawBox(c, { x: 0, y: 0, width: 12, height: 3, title: 'T', color: 'red', textColor: 'green', background: 'blue', children: ['Hi'] });
+    assert.deepEqual(c.getAttributes(0, 0), { fg: 'red' });
+    assert.deepEqual(c.getAttributes(4, 0), { fg: 'green' });
+    assert.deepEqual(c.getAttributes(1, 1), { bg: 'blue' });
+    assert.deepEqual(c.getAttributes(5, 1), { bg: 'blue', fg: 'green' });
+    assert.equal(c.getAttributes(11, 1)?.bg, undefined);
+  });
+
+  it('draws nested boxes on the parent background', () => {
+    const c = new Canvas(14, 7);
+    drawBox(c, {
+      x: 0, y: 0, width: 14, height: 7, background: 'blue',
+      children: [{ x: 1, y: 1, width: 10, height: 3, borderColor: 'yellow', children: ['x'] }],
+    });
+    assert.deepEqual(c.getAttributes(2, 2), { bg: 'blue', fg: 'yellow' });
+    assert.deepEqual(c.getAttributes(6, 3), { bg: 'blue' });
+  });
 });
@@ -96,6 +96,21 @@ describe('drawConnection', () => {
     assert.equal(c.get(14, 1), '▶');
   });
 
+  it('returns the cells it routed through', () => {
+    const boxes: NodeDef[] = [
+      { id: 'a', x: 0, y: 0, width: 5, height: 3 },
+      { id: 'b', x: 10, y: 0, width: 5, height: 3 },
+    ];
+    const c = new Canvas(20, 5);
+    const path = drawConnection(c, { from: 'a', to: 'b' }, boxes);
+    assert.deepEqual(path, {
+      cells: [5, 6, 7, 8, 9].map(x => ({ x, y: 1 })),
+      fromSide: 'right',
+      toSide: 'left',
+    });
+    assert.equal(drawConnection(c, { from: 'a', to: 'missing' }, boxes), undefined);
+  });
+
   it('draws label on straight connection', () => {
     const boxes: NodeDef[] = [
       { id: 'a', x: 0, y: 2, width: 5, height: 3 },
@@ -278,15 +293,16 @@ describe('drawConnection', () => {
   it('L-shape corner becomes tee when crossing a straight sibling connection', () => {
     // Simulates the microservices scenario: gateway→auth (straight) and
     // gateway→orders (L-shape going down). The L-shape corner on the same
-    // row as the straight line should merge into a ┬ tee junction.
+    // row as the straight line should merge into a ┬ tee junction. Both
+    // ends are pinned to the midpoint, or they'd be spread along the side.
     const boxes: NodeDef[] = [
       { id: 'gateway', x: 0, y: 2, width: 10, height: 5 },
       { id: 'auth',    x: 20, y: 2, width: 10, height: 5 },
       { id: 'orders',  x: 20, y: 10, width: 10, height: 5 },
     ];
     const allConns = [
-      { from: 'gateway', to: 'auth' },
-      { from: 'gateway', to: 'orders' },
+      { from: 'gateway', to: 'auth', fromPort: 0 },
+      { from: 'gateway', to: 'orders', fromPort: 0 },
     ];
     const c = new Canvas(35, 18);
     drawBox(c, boxes[0] as any);
@@ -386,6 +402,234 @@ describe('drawConnection', () => {
     assert.notEqual(c.get(14, 1), '┼', 'box right border should not become ┼');
   });
 
+  it('draws dashed, dotted, double and bold straight lines', () => {
+    const boxes: NodeDef[] = [
+      { id: 'a', x: 0, y: 0, width: 5, height: 3 },
+      { id: 'b', x: 15, y: 0, width: 5, height: 3 },
+    ];
+    const expected = { dashed: '┄', dotted: '┈', double: '═', bold: '━' } as const;
+    for (const [style, ch] of Object.entries(expected)) {
+      const c = new Canvas(25, 5);
+      drawConnection(c, { from: 'a', to: 'b', style: style as keyof typeof expected }, boxes);
+      assert.equal(c.get(8, 1), ch, `${style} line glyph`);
+      assert.equal(c.get(14, 1), '▶', `${style} keeps arrow head`);
+    }
+  });
+
+  it('uses style-matched corners for L-shaped connections', () => {
+    const boxes: NodeDef[] = [
+      { id: 'a', x: 0, y: 0, width: 5, height: 3 },
+      { id: 'b', x: 15, y: 6, width: 5, height: 3 },
+    ];
+    const c = new Canvas(25, 12);
+    drawConnection(c, { from: 'a', to: 'b', style: 'double' }, boxes);
+    // midX = floor((5 + 14) / 2) = 9
+    assert.equal(c.get(9, 1), '╗');
+    assert.equal(c.get(9, 4), '║');
+    assert.equal(c.get(9, 7), '╚');
+    assert.equal(c.get(12, 7), '═');
+  });
+
+  it('uses style-matched vertical segments', () => {
+    const boxes: NodeDef[] = [
+      { id: 'a', x: 0, y: 0, width: 5, height: 3 },
+      { id: 'b', x: 0, y: 8, width: 5, height: 3 },
+    ];
+    const c = new Canvas(10, 12);
+    drawConnection(c, { from: 'a', to: 'b', style: 'bold' }, boxes);
+    assert.equal(c.get(2, 4), '┃');
+    assert.equal(c.get(2, 7), '▼');
+  });
+
+  it('merges bold sibling connections into bold tees', () => {
+    const boxes: NodeDef[] = [
+      { id: 'src', x: 0, y: 2, width: 5, height: 3 },
+      { id: 'right', x: 20, y: 2, width: 5, height: 3 },
+      { id: 'lower', x: 20, y: 8, width: 5, height: 3 },
+    ];
+    const c = new Canvas(30, 14);
+    drawConnection(c, { from: 'src', to: 'right', style: 'bold' }, boxes);
+    drawConnection(c, { from: 'src', to: 'lower', style: 'bold' }, boxes);
+    const row = c.grid[3].join('');
+    assert.ok(row.includes('┳'), `expected bold tee, got: ${row}`);
+  });
+
+  it('omits the arrow head when arrow is none', () => {
+    const boxes: NodeDef[] = [
+      { id: 'a', x: 0, y: 0, width: 5, height: 3 },
+      { id: 'b', x: 15, y: 0, width: 5, height: 3 },
+    ];
+    const c = new Canvas(25, 5);
+    drawConnection(c, { from: 'a', to: 'b', arrow: 'none' }, boxes);
+    assert.equal(c.get(14, 1), '─');
+    assert.ok(!c.grid[1].join('').includes('▶'));
+  });
+
+  it('draws markers at both ends for bidirectional connections', () => {
+    const boxes: NodeDef[] = [
+      { id: 'a', x: 0, y: 0, width: 5, height: 3 },
+      { id: 'b', x: 15, y: 0, width: 5, height: 3 },
+    ];
+    const c = new Canvas(25, 5);
+    drawConnection(c, { from: 'a', to: 'b', arrow: 'both' }, boxes);
+    assert.equal(c.get(5, 1), '◀', 'tail points back into the source');
+    assert.equal(c.get(14, 1), '▶', 'head points into the target');
+  });
+
+  it('draws only the tail marker when arrow is start', () => {
+    const boxes: NodeDef[] = [
+      { id: 'a', x: 0, y: 0, width: 5, height: 3 },
+      { id: 'b', x: 0, y: 8, width: 5, height: 3 },
+    ];
+    const c = new Canvas(10, 12);
+    drawConnection(c, { from: 'a', to: 'b', arrow: 'start' }, boxes);
+    assert.equal(c.get(2, 3), '▲');
+    assert.equal(c.get(2, 7), '│');
+  });
+
+  it('draws custom head and tail marker kinds', () => {
+    const boxes: NodeDef[] = [
+      { id: 'a', x: 0, y: 0, width: 5, height: 3 },
+      { id: 'b', x: 15, y: 6, width: 5, height: 3 },
+    ];
+    const c = new Canvas(25, 12);
+    drawConnection(c, { from: 'a', to: 'b', arrow: 'both', head: 'diamond', tail: 'circle' }, boxes);
+    assert.equal(c.get(5, 1), '○');
+    assert.equal(c.get(14, 7), '◆');
+  });
+
+  it('detours around a box that blocks the straight path', () => {
+    const boxes: NodeDef[] = [
+      { id: 'a', x: 0, y: 3, width: 5, height: 3 },
+      { id: 'mid', x: 10, y: 3, width: 5, height: 3 },
+      { id: 'b', x: 20, y: 3, width: 5, height: 3 },
+    ];
+    const c = new Canvas(30, 10);
+    for (const box of boxes) drawBox(c, box as any);
+    drawConnection(c, { from: 'a', to: 'b', label: 'hop' }, boxes);
+    // The blocking box is untouched
+    assert.equal(c.get(10, 4), '│');
+    assert.equal(c.get(14, 4), '│');
+    assert.equal(c.get(12, 4), ' ');
+    assert.equal(c.get(19, 4), '▶');
+    assert.ok(c.toString().includes('hop'), 'label placed on the detour');
+  });
+
+  it('falls back to the straight shape when no detour exists', () => {
+    const boxes: NodeDef[] = [
+      { id: 'a', x: 0, y: 0, width: 5, height: 3 },
+      { id: 'mid', x: 10, y: 0, width: 5, height: 3 },
+      { id: 'b', x: 20, y: 0, width: 5, height: 3 },
+    ];
+    const c = new Canvas(25, 3);
+    drawConnection(c, { from: 'a', to: 'b' }, boxes);
+    assert.equal(c.get(12, 1), '─');
+    assert.equal(c.get(19, 1), '▶');
+  });
+
+  it('joins connections that fan out from one box with a tee', () => {
+    const boxes: NodeDef[] = [
+      { id: 'a', x: 0, y: 3, width: 5, height: 3 },
+      { id: 'b', x: 20, y: 0, width: 5, height: 3 },
+      { id: 'c', x: 20, y: 6, width: 5, height: 3 },
+    ];
+    const c = new Canvas(26, 10);
+    drawConnection(c, { from: 'a', to: 'b' }, boxes);
+    drawConnection(c, { from: 'a', to: 'c' }, boxes);
+    assert.equal(c.get(12, 4), '┤');
+    assert.equal(c.get(12, 1), '┌');
+    assert.equal(c.get(12, 7), '└');
+  });
+
+  it('hops where an independent connection crosses a straight line', () => {
+    const boxes: NodeDef[] = [
+      { id: 'a', x: 0, y: 5, width: 5, height: 3 },
+      { id: 'b', x: 20, y: 5, width: 5, height: 3 },
+      { id: 'p', x: 8, y: 0, width: 5, height: 3 },
+      { id: 'q', x: 8, y: 10, width: 5, height: 3 },
+    ];
+    const c = new Canvas(26, 13);
+    drawConnection(c, { from: 'a', to: 'b' }, boxes);
+    drawConnection(c, { from: 'p', to: 'q' }, boxes);
+    assert.equal(c.get(10, 6), ')');
+    assert.equal(c.get(9, 6), '─');
+    assert.equal(c.get(10, 5), '│');
+  });
+
+  it('gives connections entering the same side their own arrowheads', () => {
+    const boxes: NodeDef[] = [
+      { id: 'a', x: 0, y: 0, width: 6, height: 3 },
+      { id: 'b', x: 0, y: 6, width: 6, height: 3 },
+      { id: 'db', x: 20, y: 2, width: 8, height: 5 },
+    ];
+    const conns = [{ from: 'a', to: 'db' }, { from: 'b', to: 'db' }];
+    const c = new Canvas(30, 10);
+    for (const conn of conns) drawConnection(c, conn, boxes, conns);
+    assert.equal(c.get(19, 3), '▶');
+    assert.equal(c.get(19, 5), '▶');
+    assert.equal(c.get(19, 4), ' ');
+  });
+
+  it('honors explicit port offsets', () => {
+    const boxes: NodeDef[] = [
+      { id: 'a', x: 0, y: 0, width: 6, height: 5 },
+      { id: 'b', x: 20, y: 0, width: 6, height: 5 },
+    ];
+    const c = new Canvas(30, 6);
+    drawConnection(c, { from: 'a', to: 'b', fromPort: -1, toPort: 1 }, boxes);
+    assert.equal(c.get(7, 1), '─');
+    assert.equal(c.get(19, 3), '▶');
+  });
+
+  it('connects stacked boxes vertically even when offset sideways', () => {
+    const boxes: NodeDef[] = [
+      { id: 'a', x: 0, y: 0, width: 12, height: 3 },
+      { id: 'b', x: 6, y: 6, width: 12, height: 3 },
+    ];
+    const c = new Canvas(22, 9);
+    drawConnection(c, { from: 'a', to: 'b' }, boxes);
+    assert.equal(c.get(9, 3), '│');
+    assert.equal(c.get(9, 5), '▼');
+  });
+
+  it('jogs across when stacked boxes share no column', () => {
+    const boxes: NodeDef[] = [
+      { id: 'a', x: 0, y: 0, width: 6, height: 3 },
+      { id: 'b', x: 10, y: 7, width: 6, height: 3 },
+    ];
+    const c = new Canvas(16, 10);
+    drawConnection(c, { from: 'a', to: 'b', fromSide: 'bottom', toSide: 'top' }, boxes);
+    assert.equal(c.get(3, 3), '│');
+    assert.equal(c.get(3, 4), '└');
+    assert.equal(c.get(13, 4), '┐');
+    assert.equal(c.get(13, 6), '▼');
+  });
+
+  it('draws a bottom-to-bottom U-shape under every box', () => {
+    const boxes: NodeDef[] = [
+      { id: 'a', x: 0, y: 0, width: 6, height: 3 },
+      { id: 'mid', x: 8, y: 0, width: 6, height: 4 },
+      { id: 'b', x: 16, y: 0, width: 6, height: 3 },
+    ];
+    const c = new Canvas(22, 7);
+    drawConnection(c, { from: 'b', to: 'a', fromSide: 'bottom', toSide: 'bottom', label: 'back' }, boxes);
+    assert.equal(c.get(3, 3), '▲');
+    assert.equal(c.get(3, 5), '└');
+    assert.equal(c.get(19, 5), '┘');
+    assert.ok(c.toString().split('\n')[5].includes('back'));
+  });
+
+  it('labels a short U-shape beside its vertical run', () => {
+    const boxes: NodeDef[] = [
+      { id: 'a', x: 0, y: 0, width: 6, height: 3 },
+      { id: 'b', x: 0, y: 6, width: 6, height: 3 },
+    ];
+    const c = new Canvas(16, 9);
+    drawConnection(c, { from: 'b', to: 'a', fromSide: 'right', toSide: 'right', label: 'up' }, boxes);
+    assert.equal(c.get(7, 4), '│');
+    assert.equal(c.get(9, 4), 'u');
+  });
+
   it('resolves nested child IDs', () => {
     const boxes: NodeDef[] = [
       {
@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { renderHtml } from '../src/html.js';
+import { SAFE_HREF } from '../src/render.js';
+import type { NodeDef } from '../src/schema.js';
+
+const diagram: NodeDef = {
+  children: [
+    { id: 'api', children: ['API'], class: 'service', tooltip: 'The API', href: 'https://example.com/api' },
+    { id: 'db', children: ['DB'], borderColor: 'red' },
+  ],
+  connections: [{ from: 'api', to: 'db', label: '</script>' }],
+};
+
+/** The rows of the diagram's <pre> grid. */
+function gridRows(html: string): string[] {
+  return html.slice(html.indexOf('<pre>') + 5, html.indexOf('</pre>')).split('\n');
+}
+
+describe('renderHtml', () => {
+  it('produces a full page by default and a fragment on request', () => {
+    const page = renderHtml(diagram, { title: 'A & B' });
+    assert.ok(page.startsWith('<!DOCTYPE html>'));
+    assert.ok(page.includes('<title>A &amp; B</title>'));
+    const fragment = renderHtml(diagram, { fragment: true });
+    assert.ok(fragment.startsWith('<div class="box-of-rain">'));
+    assert.ok(fragment.endsWith('</div>'));
+    assert.ok(!fragment.includes('<html>'));
+  });
+
+  it('wraps each cell in a span naming the box or connection that drew it', () => {
+    const rows = gridRows(renderHtml(diagram));
+    const api = '<span data-owner="0" data-id="api" class="service" title="The API">';
+    assert.ok(rows[1].startsWith(`${api}┌──────────┐</span>`));
+    // A box's blank interior belongs to it too
+    assert.ok(rows[2].startsWith(`${api}│          │</span>`));
+    assert.ok(rows.some(row => row.includes('<span data-owner="2" data-from="api" data-to="db">─ &lt;/script&gt; ─▶</span>')));
+  });
+
+  it('shows the same characters as the text output', () => {
+    const html = renderHtml(diagram);
+    const text = gridRows(html).join('\n').replace(/<[^>]+>/g, '').replace(/&lt;/g, '<').replace(/&gt;/g, '>');
+    assert.ok(text.includes('│   API    │ ─ </script> ─▶│'));
+  });
+
+  it('turns cell colours into inline styles', () => {
+    assert.ok(renderHtml(diagram).includes('<span data-owner="1" data-id="db" style="color: #cd0000">┌──────────┐</span>'));
+  });
+
+  it('embeds the metadata shown on click, safe inside a script element', () => {
+    const html = renderHtml(diagram);
+    const json = html.match(/<script type="application\/json">(.*)<\/script>/)![1];
+    assert.ok(!json.includes('</script>'));
+    const meta = JSON.parse(json);
+    assert.deepEqual(meta[0], { kind: 'node', id: 'api', text: 'API', class: 'service', tooltip: 'The API', href: 'https://example.com/api' });
+    assert.deepEqual(meta[2], { kind: 'connection', from: 'api', to: 'db', label: '</script>' });
+  });
+
+  it('makes a link of the clicked box\'s href only when it\'s safe', () => {
+    assert.ok(renderHtml(diagram).includes(`if (key === 'href' && ${SAFE_HREF}.test(value))`));
+  });
+});
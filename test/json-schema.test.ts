@@ -0,0 +1,59 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { diagramJsonSchema } from '../src/json-schema.js';
+import type { JsonSchema } from '../src/json-schema.js';
+import { registerBorderStyle } from '../src/themes.js';
+
+const definition = (name: string) => (diagramJsonSchema().definitions as Record<string, JsonSchema>)[name];
+const properties = (name: string) => definition(name).properties as Record<string, JsonSchema>;
+
+describe('diagramJsonSchema', () => {
+  it('matches the published diagram.schema.json', () => {
+    const published = JSON.parse(readFileSync('diagram.schema.json', 'utf-8'));
+    assert.deepEqual(published, diagramJsonSchema(), 'run pnpm generate-schema');
+  });
+
+  it('describes the root as a node, with nested boxes referring back to it', () => {
+    const schema = diagramJsonSchema();
+    assert.equal(schema.$schema, 'http://json-schema.org/draft-07/schema#');
+    assert.equal(schema.$ref, '#/definitions/node');
+    const children = properties('node').children;
+    assert.deepEqual(children.anyOf, [
+      { type: 'string' },
+      { type: 'array', items: { anyOf: [{ type: 'string' }, { $ref: '#/definitions/node' }] } },
+    ]);
+    assert.deepEqual(properties('node').connections.items, { $ref: '#/definitions/connection' });
+    assert.deepEqual(properties('node').styles.additionalProperties, { $ref: '#/definitions/styleRule' });
+  });
+
+  it('gives every property a description', () => {
+    for (const name of ['node', 'connection', 'styleRule']) {
+      for (const [key, property] of Object.entries(properties(name))) {
+        assert.equal(typeof property.description, 'string', `${name}.${key}`);
+      }
+    }
+  });
+
+  it('lists enums, bounds and required properties', () => {
+    assert.deepEqual(properties('node').align.enum, ['left', 'center', 'right']);
+    assert.deepEqual(properties('connection').head.enum, ['triangle', 'cross', 'circle', 'diamond']);
+    assert.equal(properties('node').padding.type, 'integer');
+    assert.equal(properties('node').padding.minimum, 0);
+    assert.deepEqual(definition('connection').required, ['from', 'to']);
+    assert.equal(definition('node').required, undefined);
+    assert.equal(definition('styleRule').additionalProperties, false);
+  });
+
+  it('spells out colours and border styles the schema checks in code', () => {
+    const [names, hex, palette] = properties('node').color.anyOf as JsonSchema[];
+    assert.ok((names.enum as string[]).includes('bright-blue'));
+    assert.ok(new RegExp(hex.pattern as string).test('#0f0'));
+    assert.deepEqual(palette, { type: 'integer', minimum: 0, maximum: 255 });
+
+    assert.deepEqual(properties('node').border.enum, ['single', 'double', 'bold', 'rounded', 'dashed']);
+    // Registered styles show up in schemas made afterwards
+    registerBorderStyle('ticket', { tl: '╓', tr: '╖', bl: '╙', br: '╜', h: '─', v: '║' });
+    assert.ok((properties('styleRule').border.enum as string[]).includes('ticket'));
+  });
+});
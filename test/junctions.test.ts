@@ -0,0 +1,80 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Canvas } from '../src/canvas.js';
+import { drawLineCell, glyphArms, junctionGlyph, lineWeight } from '../src/junctions.js';
+import { HOP_CHAR } from '../src/constants.js';
+
+describe('glyphArms / junctionGlyph', () => {
+  it('decodes light, heavy and double glyphs', () => {
+    assert.deepEqual(glyphArms('┼'), { up: 'light', down: 'light', left: 'light', right: 'light' });
+    assert.deepEqual(glyphArms('┳'), { down: 'heavy', left: 'heavy', right: 'heavy' });
+    assert.deepEqual(glyphArms('╚'), { up: 'double', right: 'double' });
+    assert.equal(glyphArms('A'), null);
+  });
+
+  it('round-trips every tee and cross', () => {
+    for (const glyph of '├┤┬┴┼┣┫┳┻╋╠╣╦╩╬') {
+      assert.equal(junctionGlyph(glyphArms(glyph)!), glyph);
+    }
+  });
+
+  it('encodes mixed light/heavy arms', () => {
+    assert.equal(junctionGlyph({ up: 'light', down: 'light', left: 'heavy', right: 'heavy' }), '┿');
+    assert.equal(junctionGlyph({ left: 'light', right: 'light', down: 'heavy' }), '┰');
+  });
+
+  it('falls back to the heaviest weight for mixes Unicode lacks', () => {
+    assert.equal(junctionGlyph({ up: 'heavy', down: 'heavy', right: 'double' }), '╠');
+  });
+
+  it('maps line styles to junction weights', () => {
+    assert.equal(lineWeight('solid'), 'light');
+    assert.equal(lineWeight('dashed'), 'light');
+    assert.equal(lineWeight('bold'), 'heavy');
+    assert.equal(lineWeight('double'), 'double');
+  });
+});
+
+describe('drawLineCell', () => {
+  it('draws the given glyph on an empty cell', () => {
+    const c = new Canvas(3, 3);
+    drawLineCell(c, 1, 1, { left: 'light', right: 'light' }, '┄');
+    assert.equal(c.get(1, 1), '┄');
+    assert.deepEqual(c.getArms(1, 1), { left: 'light', right: 'light' });
+  });
+
+  it('joins a corner onto a straight line as a tee', () => {
+    const c = new Canvas(3, 3);
+    drawLineCell(c, 1, 1, { left: 'light', right: 'light' }, '─');
+    drawLineCell(c, 1, 1, { left: 'light', down: 'light' }, '┐');
+    assert.equal(c.get(1, 1), '┬');
+  });
+
+  it('joins two tees into a cross', () => {
+    const c = new Canvas(3, 3);
+    drawLineCell(c, 1, 1, { up: 'light', down: 'light', right: 'light' }, '├');
+    drawLineCell(c, 1, 1, { up: 'light', down: 'light', left: 'light' }, '┤');
+    assert.equal(c.get(1, 1), '┼');
+  });
+
+  it('hops where two straight lines cross without joining', () => {
+    const c = new Canvas(3, 3);
+    drawLineCell(c, 1, 1, { up: 'light', down: 'light' }, '│');
+    drawLineCell(c, 1, 1, { left: 'light', right: 'light' }, '─');
+    assert.equal(c.get(1, 1), HOP_CHAR);
+  });
+
+  it('keeps heavy arms heavy when merging', () => {
+    const c = new Canvas(3, 3);
+    drawLineCell(c, 1, 1, { left: 'heavy', right: 'heavy' }, '━');
+    drawLineCell(c, 1, 1, { left: 'light', up: 'light' }, '┘');
+    assert.equal(c.get(1, 1), '┷');
+  });
+
+  it('overwrites box borders instead of joining them', () => {
+    const c = new Canvas(3, 3);
+    c.set(1, 1, '│');
+    drawLineCell(c, 1, 1, { left: 'light', right: 'light' }, '─');
+    assert.equal(c.get(1, 1), '─');
+  });
+});
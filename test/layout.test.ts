@@ -2,6 +2,7 @@ import { describe, it } from 'node:test';
 import assert from 'node:assert/strict';
 import { autoLayout } from '../src/layout.js';
 import { getChildBoxes } from '../src/schema.js';
+import { DEFAULT_LAYOUT_OPTIONS } from '../src/constants.js';
 import type { NodeDef } from '../src/schema.js';
 
 describe('autoLayout', () => {
@@ -42,6 +43,48 @@ describe('autoLayout', () => {
     assert.ok(boxes[0].width! >= 'A very long content line here'.length + 4);
   });
 
+  it('grows a box to give each incoming connection its own port', () => {
+    const diagram: NodeDef = {
+      children: [
+        { id: 'a', children: ['A'] },
+        { id: 'b', children: ['B'] },
+        { id: 'c', children: ['C'] },
+        { id: 'db', children: ['DB'] },
+      ],
+      connections: [
+        { from: 'a', to: 'db' },
+        { from: 'b', to: 'db' },
+        { from: 'c', to: 'db' },
+      ],
+    };
+    const boxes = getChildBoxes(autoLayout(diagram))!;
+    assert.equal(boxes[3].height, 5);
+  });
+
+  it('sizes a box for its ports only along the sides they attach to', () => {
+    const ids = 'abcdefghijkl'.split('');
+    const diagram: NodeDef = {
+      childDirection: 'vertical',
+      children: [...ids.map(id => ({ id, children: [id] })), { id: 'db', children: ['DB'] }],
+      connections: ids.map(from => ({ from, to: 'db' })),
+    };
+    const db = getChildBoxes(autoLayout(diagram))!.at(-1)!;
+    assert.equal(db.height, DEFAULT_LAYOUT_OPTIONS.minBoxHeight);
+    assert.equal(db.width, 14);
+  });
+
+  it('counts connections on the side they are given', () => {
+    const diagram: NodeDef = {
+      children: [
+        { id: 'a', children: ['A'] },
+        { id: 'db', children: ['DB'] },
+      ],
+      connections: Array.from({ length: 5 }, () => ({ from: 'a', to: 'db', fromSide: 'bottom' as const, toSide: 'top' as const })),
+    };
+    const boxes = getChildBoxes(autoLayout(diagram))!;
+    assert.equal(boxes[1].height, DEFAULT_LAYOUT_OPTIONS.minBoxHeight);
+  });
+
   it('auto-sizes to fit title', () => {
     const diagram: NodeDef = {
       children: [{ id: 'a', title: 'A Really Long Title Here' }],
@@ -314,4 +357,321 @@ describe('autoLayout', () => {
     assert.ok(middle.width! > inner.width!);
     assert.ok(outer.width! > middle.width!);
   });
+
+  it('lays out top-level layers as rows when the root is vertical', () => {
+    const diagram: NodeDef = {
+      childDirection: 'vertical',
+      children: [
+        { id: 'a', children: ['A'] },
+        { id: 'b', children: ['B'] },
+        { id: 'c', children: ['C'] },
+      ],
+      connections: [
+        { from: 'a', to: 'b' },
+        { from: 'a', to: 'c' },
+      ],
+    };
+    const [a, b, c] = getChildBoxes(autoLayout(diagram))!;
+    assert.equal(b.y, c.y);
+    assert.ok(b.y! >= a.y! + a.height!);
+    assert.ok(c.x! >= b.x! + b.width!);
+    // The lone top row is centered over the row below
+    assert.ok(Math.abs((a.x! + a.width! / 2) - (b.x! + c.x! + c.width!) / 2) <= 1);
+  });
+
+  it('widens vertical layer gaps for labeled connections', () => {
+    const plain = getChildBoxes(autoLayout({
+      childDirection: 'vertical',
+      children: [{ id: 'a', children: ['A'] }, { id: 'b', children: ['B'] }],
+      connections: [{ from: 'a', to: 'b' }],
+    }))!;
+    const labeled = getChildBoxes(autoLayout({
+      childDirection: 'vertical',
+      children: [{ id: 'a', children: ['A'] }, { id: 'b', children: ['B'] }],
+      connections: [{ from: 'a', to: 'b', label: 'a very long label' }],
+    }))!;
+    assert.equal(labeled[1].y! - plain[1].y!, 2);
+  });
+
+  it('flips the layers when reversed', () => {
+    const diagram: NodeDef = {
+      childDirection: 'vertical',
+      reverse: true,
+      children: [
+        { id: 'a', children: ['A'] },
+        { id: 'b', children: ['B'] },
+      ],
+      connections: [{ from: 'a', to: 'b' }],
+    };
+    const [a, b] = getChildBoxes(autoLayout(diagram))!;
+    assert.ok(a.y! >= b.y! + b.height!);
+  });
+
+  it('stacks nested children bottom to top when reversed', () => {
+    const diagram: NodeDef = {
+      children: [{
+        id: 'group',
+        childDirection: 'vertical',
+        reverse: true,
+        children: [
+          { id: 'a', children: ['A'] },
+          { id: 'b', children: ['B'] },
+        ],
+        connections: [{ from: 'a', to: 'b' }],
+      }],
+    };
+    const [a, b] = getChildBoxes(getChildBoxes(autoLayout(diagram))![0])!;
+    assert.ok(a.y! >= b.y! + b.height!);
+  });
+
+  it('aligns a lone row with a nested connection target when vertical', () => {
+    const diagram: NodeDef = {
+      childDirection: 'vertical',
+      children: [
+        { id: 'user', children: ['User'] },
+        {
+          id: 'group',
+          children: [
+            { id: 'left', children: ['Left'] },
+            { id: 'right', children: ['Right'] },
+          ],
+        },
+      ],
+      connections: [{ from: 'user', to: 'right' }],
+    };
+    const [user, group] = getChildBoxes(autoLayout(diagram))!;
+    const right = getChildBoxes(group)![1];
+    const rightCenter = group.x! + 1 + right.x! + Math.floor(right.width! / 2);
+    assert.equal(user.x! + Math.floor(user.width! / 2), rightCenter);
+  });
+
+  it('reorders top-level layers to remove crossings', () => {
+    const diagram: NodeDef = {
+      children: [
+        { id: 'a', children: ['A'] },
+        { id: 'b', children: ['B'] },
+        { id: 'c', children: ['C'] },
+        { id: 'd', children: ['D'] },
+      ],
+      connections: [
+        { from: 'a', to: 'd' },
+        { from: 'b', to: 'c' },
+      ],
+    };
+    const [a, b, c, d] = getChildBoxes(autoLayout(diagram))!;
+    assert.equal(a.y! < b.y!, d.y! < c.y!);
+  });
+
+  it('reorders layers inside nested containers', () => {
+    const diagram: NodeDef = {
+      children: [{
+        id: 'group',
+        children: [
+          { id: 'a', children: ['A'] },
+          { id: 'b', children: ['B'] },
+          { id: 'c', children: ['C'] },
+          { id: 'd', children: ['D'] },
+        ],
+        connections: [
+          { from: 'a', to: 'd' },
+          { from: 'b', to: 'c' },
+        ],
+      }],
+    };
+    const group = getChildBoxes(autoLayout(diagram))![0];
+    const [a, b, c, d] = getChildBoxes(group)!;
+    assert.equal(a.y! < b.y!, d.y! < c.y!);
+  });
+
+  it('layers a retry loop in flow order and routes the loop back underneath', () => {
+    const diagram: NodeDef = {
+      children: [
+        { id: 'client', children: ['Client'] },
+        { id: 'server', children: ['Server'] },
+        { id: 'worker', children: ['Worker'] },
+      ],
+      connections: [
+        { from: 'client', to: 'server' },
+        { from: 'server', to: 'worker' },
+        { from: 'worker', to: 'server', label: 'retry' },
+      ],
+    };
+    const result = autoLayout(diagram);
+    const [client, server, worker] = getChildBoxes(result)!;
+    assert.ok(client.x! < server.x!);
+    assert.ok(server.x! < worker.x!);
+    const retry = result.connections![2];
+    assert.equal(retry.fromSide, 'bottom');
+    assert.equal(retry.toSide, 'bottom');
+    assert.equal(result.connections![0].fromSide, undefined);
+  });
+
+  it('routes back-edges beside the rows in a vertical flow', () => {
+    const result = autoLayout({
+      childDirection: 'vertical',
+      children: [{ id: 'a', children: ['A'] }, { id: 'b', children: ['B'] }],
+      connections: [{ from: 'a', to: 'b' }, { from: 'b', to: 'a' }],
+    });
+    assert.equal(result.connections![1].fromSide, 'right');
+    assert.equal(result.connections![1].toSide, 'right');
+  });
+
+  it('keeps explicit sides on back-edges', () => {
+    const result = autoLayout({
+      children: [{ id: 'a', children: ['A'] }, { id: 'b', children: ['B'] }],
+      connections: [{ from: 'a', to: 'b' }, { from: 'b', to: 'a', fromSide: 'top', toSide: 'top' }],
+    });
+    assert.equal(result.connections![1].fromSide, 'top');
+  });
+
+  it('breaks cycles inside nested containers and leaves room for back-edges', () => {
+    const diagram: NodeDef = {
+      children: [{
+        id: 'group',
+        children: [
+          { id: 'a', children: ['A'] },
+          { id: 'b', children: ['B'] },
+        ],
+        connections: [
+          { from: 'a', to: 'b' },
+          { from: 'b', to: 'a' },
+        ],
+      }],
+    };
+    const group = getChildBoxes(autoLayout(diagram))![0];
+    const [a, b] = getChildBoxes(group)!;
+    assert.ok(a.x! < b.x!);
+    assert.equal(group.connections![1].fromSide, 'bottom');
+    assert.equal(group.height, a.y! + a.height! + 4);
+  });
+
+  it('lines up a chain straight across layers when a sibling fans out', () => {
+    const result = autoLayout({
+      children: [
+        { id: 'a', children: ['A'] },
+        { id: 'b', children: ['B', 'two', 'lines'] },
+        { id: 'c', children: ['C'] },
+        { id: 'd', children: ['D'] },
+      ],
+      connections: [
+        { from: 'a', to: 'b' },
+        { from: 'b', to: 'c' },
+        { from: 'a', to: 'd' },
+      ],
+    });
+    const [a, b, c, d] = getChildBoxes(result)!;
+    const mid = (box: NodeDef) => box.y! + Math.floor(box.height! / 2);
+    assert.equal(mid(b), mid(c));
+    assert.ok(d.y! >= b.y! + b.height! + DEFAULT_LAYOUT_OPTIONS.vGap || b.y! >= d.y! + d.height! + DEFAULT_LAYOUT_OPTIONS.vGap);
+    assert.ok(mid(a) > Math.min(mid(b), mid(d)) && mid(a) < Math.max(mid(b), mid(d)));
+  });
+
+  it('keeps vGap clear below a shadow in the same layer', () => {
+    const result = autoLayout({
+      children: [
+        { id: 'a', children: ['A'] },
+        { id: 'b', children: ['B'], shadow: true },
+        { id: 'c', children: ['C'] },
+      ],
+      connections: [
+        { from: 'a', to: 'b' },
+        { from: 'a', to: 'c' },
+      ],
+    });
+    const [, b, c] = getChildBoxes(result)!;
+    const [upper, lower] = b.y! < c.y! ? [b, c] : [c, b];
+    const shadow = upper.shadow ? 1 : 0;
+    assert.equal(lower.y! - (upper.y! + upper.height! + shadow), DEFAULT_LAYOUT_OPTIONS.vGap);
+  });
+
+  it('keeps a pinned y and moves its layer neighbours clear of it', () => {
+    const result = autoLayout({
+      children: [
+        { id: 'a', children: ['A'] },
+        { id: 'b', children: ['B'], y: 3 },
+        { id: 'c', children: ['C'] },
+      ],
+      connections: [
+        { from: 'a', to: 'b' },
+        { from: 'a', to: 'c' },
+      ],
+    });
+    const [, b, c] = getChildBoxes(result)!;
+    assert.equal(b.y, 3);
+    assert.ok(c.y! >= b.y! + b.height! + DEFAULT_LAYOUT_OPTIONS.vGap || c.y! + c.height! + DEFAULT_LAYOUT_OPTIONS.vGap <= b.y!);
+  });
+
+  it('wraps text to a box maxWidth and grows the height to fit', () => {
+    const result = autoLayout({
+      children: [{ id: 'a', maxWidth: 16, children: ['Ingests events from the edge'] }],
+    });
+    const a = getChildBoxes(result)![0];
+    assert.equal(a.width, 16);
+    assert.equal(a.height, DEFAULT_LAYOUT_OPTIONS.minBoxHeight);
+    const b = getChildBoxes(autoLayout({
+      children: [{ id: 'b', maxWidth: 14, children: ['Ingests events from the edge collectors'] }],
+    }))![0];
+    // Ingests / events / from the / edge / collectors
+    assert.equal(b.height, 5 + 2);
+  });
+
+  it('applies the maxWidth layout option to every box without its own', () => {
+    const result = autoLayout({
+      children: [
+        { id: 'a', children: ['A rather long line of text'] },
+        { id: 'b', maxWidth: 40, children: ['A rather long line of text'] },
+      ],
+    }, { maxWidth: 16 });
+    const [a, b] = getChildBoxes(result)!;
+    assert.equal(a.width, 16);
+    assert.equal(b.width, 30);
+  });
+
+  it('makes room under a wrapped container title for its children', () => {
+    const result = autoLayout({
+      children: [{
+        id: 'g',
+        title: 'A container title that wraps',
+        maxWidth: 20,
+        children: [{ id: 'c', children: ['C'] }],
+      }],
+    });
+    const g = getChildBoxes(result)![0];
+    const c = getChildBoxes(g)![0];
+    assert.equal(g.width, 20);
+    assert.equal(c.y, DEFAULT_LAYOUT_OPTIONS.padTop + 2);
+  });
+
+  it('sizes text boxes around their padding', () => {
+    const result = autoLayout({
+      children: [
+        { id: 'a', padding: 3, children: ['Some padded text'] },
+        { id: 'b', paddingX: 0, children: ['Some snug text, no padding'] },
+      ],
+    });
+    const [a, b] = getChildBoxes(result)!;
+    assert.equal(a.width, 16 + 2 + 6);
+    assert.equal(a.height, 1 + 2 + 6);
+    assert.equal(b.width, 26 + 2);
+  });
+
+  it('insets nested children by an explicit container padding', () => {
+    const result = autoLayout({
+      children: [{ id: 'g', padding: 1, children: [{ id: 'c', children: ['C'] }] }],
+    });
+    const g = getChildBoxes(result)![0];
+    const c = getChildBoxes(g)![0];
+    assert.equal(c.x, 1);
+    assert.equal(c.y, 1);
+    assert.equal(g.width, c.width! + 2 + 2);
+    assert.equal(g.height, c.height! + 2 + 2);
+  });
+
+  it('sizes boxes by the display width of wide text', () => {
+    const result = autoLayout({
+      children: [{ id: 'a', title: 'タイトル', children: ['日本語のラベルです'] }],
+    });
+    const a = getChildBoxes(result)![0];
+    assert.equal(a.width, 18 + 4);
+  });
 });
@@ -10,6 +10,40 @@ import type { NodeDef } from '../src/schema.js';
 // ── Flowchart parsing ──────────────────────────────────────────────────────
 
 describe('parseFlowchart', () => {
+  it('parses bidirectional and marker edges', () => {
+    const ast = parseFlowchart(`flowchart LR
+      A <--> B
+      B o--o C
+      C x--x D
+      D --x E
+      E <-.-> F
+      F <==> G
+    `);
+    assert.equal(ast.edges.length, 6);
+    assert.equal(ast.edges[0].tailMarker, 'arrow');
+    assert.equal(ast.edges[0].hasArrow, true);
+    assert.equal(ast.edges[1].tailMarker, 'circle');
+    assert.equal(ast.edges[1].headMarker, 'circle');
+    assert.equal(ast.edges[2].tailMarker, 'cross');
+    assert.equal(ast.edges[3].tailMarker, undefined);
+    assert.equal(ast.edges[3].headMarker, 'cross');
+    assert.equal(ast.edges[4].style, 'dotted');
+    assert.equal(ast.edges[4].tailMarker, 'arrow');
+    assert.equal(ast.edges[5].style, 'thick');
+    assert.equal(ast.edges[5].from, 'F');
+    assert.equal(ast.edges[5].to, 'G');
+  });
+
+  it('does not treat o/x in node IDs as edge markers', () => {
+    const ast = parseFlowchart(`flowchart LR
+      box --> ox
+    `);
+    assert.equal(ast.edges.length, 1);
+    assert.equal(ast.edges[0].from, 'box');
+    assert.equal(ast.edges[0].to, 'ox');
+    assert.equal(ast.edges[0].headMarker, undefined);
+  });
+
   it('parses direction', () => {
     const ast = parseFlowchart('flowchart LR\n  A --> B');
     assert.equal(ast.direction, 'LR');
@@ -149,6 +183,51 @@ describe('parseFlowchart', () => {
     assert.equal(ast.nodes[0].id, 'A');
     assert.equal(ast.nodes[0].shape, 'rect'); // default shape
   });
+
+  it('applies @route port offsets', () => {
+    const ast = parseFlowchart(`flowchart LR
+      A --> B
+      %% @route A-->B fromPort=-1 toPort=2
+    `);
+    assert.equal(ast.edges[0].fromPort, -1);
+    assert.equal(ast.edges[0].toPort, 2);
+    const conns = flowchartToNodeDef(ast).connections!;
+    assert.equal(conns[0].fromPort, -1);
+    assert.equal(conns[0].toPort, 2);
+  });
+
+  it('parses classDef and class statements', () => {
+    const ast = parseFlowchart(`flowchart LR
+      classDef db,store fill:#336,stroke-width:2px;
+      A --> B:::db
+      class A,B store
+      A:::extra
+    `);
+    assert.deepEqual(ast.classDefs, {
+      db: { fill: '#336', 'stroke-width': '2px' },
+      store: { fill: '#336', 'stroke-width': '2px' },
+    });
+    assert.deepEqual(ast.nodes.map(n => n.id), ['A', 'B']);
+    assert.deepEqual(ast.nodes[0].classes, ['extra', 'store'], 'class statements apply after inline classes');
+    assert.deepEqual(ast.nodes[1].classes, ['db', 'store']);
+  });
+
+  it('applies several classes to several nodes in one class statement', () => {
+    const ast = parseFlowchart(`flowchart LR
+      A --> B --> C
+      class A,B fast,hot;
+      class C slow
+    `);
+    assert.deepEqual(ast.nodes.map(n => n.classes), [['fast', 'hot'], ['fast', 'hot'], ['slow']]);
+  });
+
+  it('gives every node the default class when one is defined', () => {
+    const ast = parseFlowchart(`flowchart LR
+      classDef default stroke:#888
+      A:::hot --> B
+    `);
+    assert.deepEqual(ast.nodes.map(n => n.classes), [['default', 'hot'], ['default']]);
+  });
 });
 
 // ── Sequence parsing ───────────────────────────────────────────────────────
@@ -274,6 +353,23 @@ describe('flowchartToNodeDef', () => {
     assert.equal(children[1].id, 'A');
   });
 
+  it('flips the layered layout for BT only', () => {
+    assert.equal(flowchartToNodeDef(parseFlowchart('flowchart BT\n  A --> B')).reverse, true);
+    assert.equal(flowchartToNodeDef(parseFlowchart('flowchart TD\n  A --> B')).reverse, undefined);
+    assert.equal(flowchartToNodeDef(parseFlowchart('flowchart RL\n  A --> B')).reverse, undefined);
+  });
+
+  it('leaves a BT subgraph to be stacked upwards by the layout', () => {
+    const def = flowchartToNodeDef(parseFlowchart(`flowchart BT
+      subgraph S
+        A --> B
+      end
+    `));
+    const sg = (def.children as NodeDef[])[0];
+    assert.equal(sg.reverse, true);
+    assert.deepEqual((sg.children as NodeDef[]).map(c => c.id), ['A', 'B']);
+  });
+
   it('creates connections from edges', () => {
     const def = flowchartToNodeDef(parseFlowchart(`flowchart TD
       A -->|label| B
@@ -284,6 +380,38 @@ describe('flowchartToNodeDef', () => {
     assert.equal(def.connections![0].label, 'label');
   });
 
+  it('maps edge styles to connection line styles', () => {
+    const def = flowchartToNodeDef(parseFlowchart(`flowchart LR
+      A --> B
+      B -.-> C
+      C ==> D
+    `));
+    assert.equal(def.connections![0].style, undefined);
+    assert.equal(def.connections![1].style, 'dotted');
+    assert.equal(def.connections![2].style, 'bold');
+  });
+
+  it('maps edge markers to connection arrows', () => {
+    const def = flowchartToNodeDef(parseFlowchart(`flowchart LR
+      A --- B
+      B <--> C
+      C o--o D
+      D x--x E
+      E --o F
+    `));
+    const conns = def.connections!;
+    assert.equal(conns[0].arrow, 'none');
+    assert.equal(conns[1].arrow, 'both');
+    assert.equal(conns[1].head, undefined);
+    assert.equal(conns[2].arrow, 'both');
+    assert.equal(conns[2].head, 'circle');
+    assert.equal(conns[2].tail, 'circle');
+    assert.equal(conns[3].head, 'cross');
+    assert.equal(conns[3].tail, 'cross');
+    assert.equal(conns[4].arrow, undefined);
+    assert.equal(conns[4].head, 'circle');
+  });
+
   it('converts subgraphs to nested NodeDefs', () => {
     const def = flowchartToNodeDef(parseFlowchart(`flowchart TD
       subgraph Backend
@@ -319,6 +447,36 @@ describe('flowchartToNodeDef', () => {
     const children = def.children as NodeDef[];
     assert.deepEqual(children[0].children, ['Line 1', 'Line 2']);
   });
+
+  it('turns classDefs into style rules', () => {
+    const def = flowchartToNodeDef(parseFlowchart(`flowchart LR
+      classDef db fill:#336,stroke:red,color:white,stroke-width:3px,rx:4
+      classDef faint stroke-dasharray:3 3,fill:rgb(1,2,3)
+      A[(Orders)]:::db --> B
+      subgraph S [Side]
+        C
+      end
+      class S faint
+    `));
+    assert.deepEqual(def.styles, {
+      db: { background: '#336', borderColor: 'red', textColor: 'white', border: 'bold', style: 'bold' },
+      faint: { border: 'dashed', style: 'dashed' },
+    });
+    const [a, b, s] = def.children as NodeDef[];
+    assert.deepEqual(a.classes, ['db']);
+    assert.equal(a.border, undefined, 'the class border wins over the cylinder shape');
+    assert.equal(b.border, 'single');
+    assert.deepEqual(s.classes, ['faint']);
+    assert.equal(s.border, undefined);
+  });
+
+  it('renders class styles', () => {
+    const out = renderMermaid(`flowchart LR
+      classDef db stroke-width:2px
+      A --> B:::db
+    `);
+    assert.ok(out.includes('┏'));
+  });
 });
 
 // ── Sequence conversion ────────────────────────────────────────────────────
@@ -368,6 +526,16 @@ describe('sequenceToNodeDef', () => {
     assert.equal(def.connections![1].to, 'A_1');
   });
 
+  it('draws dashed messages with dashed lines', () => {
+    const ast = parseSequence(`sequenceDiagram
+      A->>B: Hello
+      B-->>A: World
+    `);
+    const def = sequenceToNodeDef(ast);
+    assert.equal(def.connections![0].style, undefined);
+    assert.equal(def.connections![1].style, 'dashed');
+  });
+
   it('falls back to horizontal layout with no messages', () => {
     const ast = parseSequence(`sequenceDiagram
       participant A as Alice
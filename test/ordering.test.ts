@@ -0,0 +1,61 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { orderLayers } from '../src/ordering.js';
+
+/** Count crossings between consecutive layers for edges that span one layer. */
+function crossings(layers: string[][], edges: Array<[string, string]>): number {
+  const pos = new Map<string, [number, number]>();
+  layers.forEach((layer, l) => layer.forEach((n, i) => pos.set(n, [l, i])));
+  let count = 0;
+  for (let a = 0; a < edges.length; a++) {
+    for (let b = a + 1; b < edges.length; b++) {
+      const [la, ia] = pos.get(edges[a][0])!;
+      const [lb, ib] = pos.get(edges[b][0])!;
+      if (la !== lb) continue;
+      const ja = pos.get(edges[a][1])![1];
+      const jb = pos.get(edges[b][1])![1];
+      if ((ia - ib) * (ja - jb) < 0) count++;
+    }
+  }
+  return count;
+}
+
+describe('orderLayers', () => {
+  it('untangles a simple crossing', () => {
+    const edges: Array<[string, string]> = [['a', 'd'], ['b', 'c']];
+    const result = orderLayers([['a', 'b'], ['c', 'd']], edges);
+    assert.equal(crossings(result, edges), 0);
+  });
+
+  it('leaves a crossing-free order alone', () => {
+    const layers = [['a', 'b', 'x'], ['c', 'd']];
+    const result = orderLayers(layers, [['a', 'c'], ['b', 'd']]);
+    assert.deepEqual(result, layers);
+  });
+
+  it('routes long edges through dummy nodes', () => {
+    // a→e skips the middle layer; its dummy there sits beside c, so e has to
+    // move to a's side of d for the two paths not to cross
+    const result = orderLayers([['a', 'b'], ['c'], ['d', 'e']], [['a', 'e'], ['b', 'c'], ['c', 'd']]);
+    assert.deepEqual(result, [['a', 'b'], ['c'], ['e', 'd']]);
+  });
+
+  it('reduces crossings across several layers with up and down sweeps', () => {
+    const edges: Array<[string, string]> = [
+      ['a', 'f'], ['b', 'e'], ['c', 'd'],
+      ['d', 'i'], ['e', 'h'], ['f', 'g'],
+    ];
+    const result = orderLayers([['a', 'b', 'c'], ['d', 'e', 'f'], ['g', 'h', 'i']], edges);
+    assert.equal(crossings(result, edges), 0);
+  });
+
+  it('keeps holes in a sparse layer list', () => {
+    const layers: string[][] = [];
+    layers[0] = ['a'];
+    layers[2] = ['b'];
+    const result = orderLayers(layers, [['a', 'b']]);
+    assert.equal(result.length, 3);
+    assert.equal(result[1], undefined);
+    assert.deepEqual(result[2], ['b']);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { assignPorts, spreadPorts } from '../src/ports.js';
+import { getAnchor, resolveBox } from '../src/geometry.js';
+import type { ConnectionDef, NodeDef } from '../src/schema.js';
+
+describe('spreadPorts', () => {
+  it('keeps a lone port on the midpoint', () => {
+    assert.deepEqual(spreadPorts(1, 5), [0]);
+  });
+
+  it('spreads ports evenly over the side, clear of the corners', () => {
+    assert.deepEqual(spreadPorts(2, 5), [-1, 1]);
+    assert.deepEqual(spreadPorts(3, 5), [-1, 0, 1]);
+    assert.deepEqual(spreadPorts(2, 4), [-1, 0]);
+  });
+});
+
+describe('getAnchor with an offset', () => {
+  const boxes: NodeDef[] = [{ id: 'a', x: 10, y: 10, width: 10, height: 5 }];
+  const a = resolveBox('a', boxes)!;
+
+  it('shifts the anchor along the side', () => {
+    assert.deepEqual(getAnchor(a, 'left', 1), { x: 9, y: 13 });
+    assert.deepEqual(getAnchor(a, 'top', -3), { x: 12, y: 9 });
+  });
+
+  it('never lands on a corner', () => {
+    assert.deepEqual(getAnchor(a, 'right', 9), { x: 20, y: 13 });
+    assert.deepEqual(getAnchor(a, 'bottom', -9), { x: 11, y: 15 });
+  });
+});
+
+describe('assignPorts', () => {
+  const boxes: NodeDef[] = [
+    { id: 'a', x: 0, y: 0, width: 6, height: 3 },
+    { id: 'b', x: 0, y: 5, width: 6, height: 3 },
+    { id: 'c', x: 0, y: 10, width: 6, height: 3 },
+    { id: 'db', x: 20, y: 4, width: 8, height: 5 },
+  ];
+
+  it('spreads incoming connections in the order of their sources', () => {
+    const conns: ConnectionDef[] = [
+      { from: 'c', to: 'db' },
+      { from: 'a', to: 'db' },
+      { from: 'b', to: 'db' },
+    ];
+    const ports = assignPorts(conns, boxes);
+    assert.equal(ports.get(conns[1])!.toPort, -1);
+    assert.equal(ports.get(conns[2])!.toPort, 0);
+    assert.equal(ports.get(conns[0])!.toPort, 1);
+  });
+
+  it('spreads plain outgoing connections as well', () => {
+    const conns: ConnectionDef[] = [
+      { from: 'db', to: 'a', fromSide: 'left', toSide: 'right' },
+      { from: 'db', to: 'c', fromSide: 'left', toSide: 'right' },
+    ];
+    const ports = assignPorts(conns, boxes);
+    assert.equal(ports.get(conns[0])!.fromPort, -1);
+    assert.equal(ports.get(conns[1])!.fromPort, 1);
+  });
+
+  it('gives each end of a fan-out its own anchor', () => {
+    const conns: ConnectionDef[] = ['a', 'b', 'c'].map(to => ({ from: 'db', to, fromSide: 'left', toSide: 'right' }));
+    const ports = assignPorts(conns, boxes);
+    const db = resolveBox('db', boxes)!;
+    const anchors = conns.map(conn => JSON.stringify(getAnchor(db, 'left', ports.get(conn)!.fromPort)));
+    assert.equal(new Set(anchors).size, 3);
+  });
+
+  it('gives outgoing connections with a tail marker their own port', () => {
+    const conns: ConnectionDef[] = [
+      { from: 'db', to: 'a', fromSide: 'left', toSide: 'right', arrow: 'both' },
+      { from: 'db', to: 'c', fromSide: 'left', toSide: 'right', arrow: 'both' },
+    ];
+    const ports = assignPorts(conns, boxes);
+    assert.equal(ports.get(conns[0])!.fromPort, -1);
+    assert.equal(ports.get(conns[1])!.fromPort, 1);
+  });
+
+  it('keeps explicit ports out of the spread', () => {
+    const conns: ConnectionDef[] = [
+      { from: 'a', to: 'db', toPort: 2 },
+      { from: 'b', to: 'db' },
+    ];
+    const ports = assignPorts(conns, boxes);
+    assert.equal(ports.get(conns[0])!.toPort, 2);
+    assert.equal(ports.get(conns[1])!.toPort, 0);
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it } from 'node:test';
 import assert from 'node:assert/strict';
-import { render } from '../src/render.js';
+import { escapeXml, render, renderAnsi, renderCanvas, renderSvg, svgGroup } from '../src/render.js';
+import { Canvas } from '../src/canvas.js';
 import type { NodeDef } from '../src/schema.js';
 
 describe('render integration', () => {
@@ -169,4 +170,141 @@ describe('render integration', () => {
       render({ border: 'nonexistent' as any });
     });
   });
+
+  it('strikes through a disabled title with combining marks in plain text', () => {
+    const output = render({
+      children: [{ id: 'a', title: 'Old', disabled: true, children: 'Gone' }],
+    });
+    assert.ok(output.includes('O\u0336l\u0336d\u0336'));
+    assert.ok(output.includes('░Gone░'));
+  });
+});
+
+describe('renderSvg', () => {
+  it('renders strike marks as a text decoration', () => {
+    const svg = renderSvg('ab\u0336c');
+    assert.ok(svg.includes('a<tspan style="text-decoration: line-through">b</tspan>c'));
+    assert.ok(!svg.includes('\u0336'));
+  });
+
+  it('renders every attribute of a canvas cell', () => {
+    const canvas = new Canvas(3, 1);
+    canvas.writeText(0, 0, 'xyz');
+    canvas.setAttributes(1, 0, { bold: true, italic: true, dim: true, underline: true });
+    const svg = renderSvg(canvas);
+    assert.ok(svg.includes('<tspan style="text-decoration: underline; font-weight: bold; font-style: italic; opacity: 0.5">y</tspan>'));
+  });
+
+  it('sizes the image by display width', () => {
+    const svg = renderSvg('日本', { charWidth: 10, padding: 0 });
+    assert.ok(svg.includes('width="40"'));
+  });
+});
+
+describe('SVG groups', () => {
+  const diagram: NodeDef = {
+    children: [
+      { id: 'api', children: ['API'], class: 'service hot', tooltip: 'The API', href: 'https://example.com/?a=1&b=2' },
+      { id: 'db', children: ['DB'] },
+    ],
+    connections: [{ from: 'api', to: 'db', label: 'SQL', tooltip: 'queries' }],
+  };
+
+  it('identifies boxes and connections with data-id and classes', () => {
+    assert.deepEqual(svgGroup({ id: 'a', class: ' x  y ' }, ['<text />']), [
+      '<g data-id="a" class="node x y">',
+      '  <text />',
+      '</g>',
+    ]);
+    assert.equal(svgGroup({ from: 'a', to: 'b' }, [])[0], '<g data-id="a-&gt;b" data-from="a" data-to="b" class="connection">');
+    assert.equal(svgGroup({ id: 'c1', from: 'a', to: 'b', class: 'slow' }, [])[0], '<g data-id="c1" data-from="a" data-to="b" class="connection slow">');
+  });
+
+  it('adds a tooltip and wraps a box with an href in a link', () => {
+    assert.deepEqual(svgGroup({ tooltip: 'Tip', href: 'https://example.com' }, ['<text />']), [
+      '<g class="node">',
+      '  <title>Tip</title>',
+      '  <a href="https://example.com">',
+      '    <text />',
+      '  </a>',
+      '</g>',
+    ]);
+  });
+
+  it('links only to http(s), mailto and relative URLs', () => {
+    for (const href of ['http://example.com', 'HTTPS://example.com', 'mailto:ops@example.com', '/docs', 'docs/api?x=a:b', '#top']) {
+      assert.ok(svgGroup({ href }, []).includes(`  <a href="${escapeXml(href)}">`), href);
+    }
+    for (const href of ['javascript:alert(1)', ' javascript:alert(1)', 'data:text/html,x', 'vbscript:x']) {
+      assert.ok(!svgGroup({ href }, ['<text />']).some(line => line.includes('<a ')), href);
+    }
+  });
+
+  it('groups the glyphs each box and connection drew in the text SVG', () => {
+    const svg = renderSvg(renderCanvas(diagram));
+    const api = svg.slice(svg.indexOf('<g data-id="api"'), svg.indexOf('</g>') + 4);
+    assert.ok(api.startsWith('<g data-id="api" class="node service hot">'));
+    assert.ok(api.includes('<title>The API</title>'));
+    assert.ok(api.includes('<a href="https://example.com/?a=1&amp;b=2">'));
+    assert.ok(api.includes('│   API    │'));
+    assert.ok(!api.includes('SQL'));
+    assert.ok(svg.includes('<g data-id="db" class="node">'));
+    assert.match(svg, /<g data-id="api-&gt;db" data-from="api" data-to="db" class="connection">\n\s+<title>queries<\/title>\n\s+<text x="[\d.]+" y="\d+" xml:space="preserve">─ SQL ─▶<\/text>/);
+  });
+
+  it('keeps one text element per row for plain text input', () => {
+    const svg = renderSvg(render(diagram));
+    assert.ok(!svg.includes('<g'));
+    assert.ok(svg.includes('<text x="16" y="72" xml:space="preserve">│   API    │ ─ SQL ─▶│    DB    │</text>'));
+  });
+});
+
+describe('renderAnsi', () => {
+  const diagram: NodeDef = {
+    children: [
+      { id: 'a', children: ['Hello'], borderColor: 'red' },
+      { id: 'b', children: ['World'] },
+    ],
+    connections: [{ from: 'a', to: 'b', label: 'go', color: 208 }],
+  };
+
+  it('draws the same characters as render', () => {
+    const plain = renderAnsi(diagram).replace(/\x1b\[[\d;]*m/g, '');
+    assert.equal(plain, render(diagram));
+  });
+
+  it('emits one escape sequence per run of equally styled cells', () => {
+    const lines = renderAnsi(diagram).split('\n');
+    assert.match(lines[1], /^\x1b\[31m┌─+┐\x1b\[0m/);
+    assert.ok(lines.some(line => line.includes('\x1b[38;5;208m─ go ─▶\x1b[0m')));
+  });
+
+  it('has no escapes for an uncoloured diagram', () => {
+    assert.ok(!renderAnsi({ children: [{ id: 'a', children: ['x'] }] }).includes('\x1b'));
+  });
+});
+
+describe('ascii charset', () => {
+  const diagram: NodeDef = {
+    children: [
+      { id: 'a', children: ['Héllo ─'], border: 'rounded', shadow: true },
+      { id: 'b', children: ['World'], border: 'double' },
+    ],
+    connections: [{ from: 'a', to: 'b', label: 'go', style: 'dashed' }],
+  };
+
+  it('draws with nothing but ASCII outside the text', () => {
+    const out = render(diagram, { charset: 'ascii' });
+    assert.equal(out.replace(/[é─]/g, ''), out.replace(/[^\x20-\x7e\n]/g, ''));
+    assert.ok(out.includes('Héllo ─'));
+    assert.ok(out.includes('+======'));
+    assert.ok(out.includes('#'));
+    assert.match(out, /- go -+>/);
+  });
+
+  it('draws the same layout as the Unicode output', () => {
+    const ascii = render(diagram, { charset: 'ascii' }).split('\n');
+    const unicode = render(diagram).split('\n');
+    assert.deepEqual(ascii.map(line => line.length), unicode.map(line => line.length));
+  });
 });
@@ -0,0 +1,82 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Canvas } from '../src/canvas.js';
+import { buildObstacleMap, buildObstacles, findRoute, isPathBlocked, obstaclesFor } from '../src/router.js';
+import { drawLineCell } from '../src/junctions.js';
+import type { NodeDef } from '../src/schema.js';
+
+describe('buildObstacleMap / isPathBlocked', () => {
+  const boxes: NodeDef[] = [
+    { id: 'a', x: 0, y: 0, width: 5, height: 3 },
+    { id: 'mid', x: 10, y: 0, width: 5, height: 3 },
+    { id: 'b', x: 20, y: 0, width: 5, height: 3 },
+  ];
+
+  it('flags a straight line through an unrelated box', () => {
+    const map = buildObstacleMap(30, 6, boxes, 'a', 'b');
+    assert.equal(isPathBlocked(map, [{ x: 5, y: 1 }, { x: 19, y: 1 }]), true);
+  });
+
+  it('ignores the endpoint boxes themselves', () => {
+    const map = buildObstacleMap(30, 6, boxes, 'a', 'mid');
+    assert.equal(isPathBlocked(map, [{ x: 5, y: 1 }, { x: 9, y: 1 }]), false);
+  });
+
+  it('exempts each connection\'s own endpoints from obstacles built once', () => {
+    const obstacles = buildObstacles(30, 6, boxes);
+    assert.equal(isPathBlocked(obstaclesFor(obstacles, 'a', 'b'), [{ x: 5, y: 1 }, { x: 19, y: 1 }]), true);
+    assert.equal(isPathBlocked(obstaclesFor(obstacles, 'a', 'mid'), [{ x: 5, y: 1 }, { x: 9, y: 1 }]), false);
+    assert.equal(isPathBlocked(obstaclesFor(obstacles, 'mid', 'b'), [{ x: 15, y: 1 }, { x: 19, y: 1 }]), false);
+  });
+
+  it('lets connections leave the container of an endpoint', () => {
+    const nested: NodeDef[] = [
+      {
+        id: 'outer', x: 0, y: 0, width: 12, height: 7,
+        children: [{ id: 'inner', x: 2, y: 1, width: 5, height: 3 }],
+      },
+      { id: 'other', x: 20, y: 2, width: 5, height: 3 },
+    ];
+    const map = buildObstacleMap(30, 8, nested, 'inner', 'other');
+    assert.equal(isPathBlocked(map, [{ x: 8, y: 3 }, { x: 19, y: 3 }]), false);
+  });
+});
+
+describe('findRoute', () => {
+  it('routes around a box in the way', () => {
+    const boxes: NodeDef[] = [
+      { id: 'a', x: 0, y: 2, width: 5, height: 3 },
+      { id: 'mid', x: 10, y: 2, width: 5, height: 3 },
+      { id: 'b', x: 20, y: 2, width: 5, height: 3 },
+    ];
+    const map = buildObstacleMap(30, 8, boxes, 'a', 'b');
+    const route = findRoute(map, new Canvas(30, 8), { x: 5, y: 3 }, 'right', { x: 19, y: 3 }, 'left');
+    assert.ok(route);
+    assert.deepEqual(route![0], { x: 5, y: 3 });
+    assert.deepEqual(route![route!.length - 1], { x: 19, y: 3 });
+    for (const p of route!) {
+      assert.ok(!(p.x >= 10 && p.x < 15 && p.y >= 2 && p.y < 5), `route enters mid at (${p.x}, ${p.y})`);
+    }
+    // Arrives moving right, into the target's left side
+    assert.equal(route![route!.length - 2].y, 3);
+  });
+
+  it('crosses a hop like any other line', () => {
+    // A vertical line down column 5, with another line hopping over it on row 1
+    const canvas = new Canvas(11, 3);
+    for (let y = 0; y < 3; y++) drawLineCell(canvas, 5, y, { up: 'light', down: 'light' }, '│');
+    drawLineCell(canvas, 5, 1, { left: 'light', right: 'light' }, '─');
+    const route = findRoute(buildObstacleMap(11, 3, [], 'a', 'b'), canvas, { x: 0, y: 1 }, 'right', { x: 10, y: 1 }, 'left');
+    assert.ok(route!.every(p => p.y === 1));
+  });
+
+  it('returns null when no route exists', () => {
+    const boxes: NodeDef[] = [
+      { id: 'a', x: 0, y: 0, width: 5, height: 3 },
+      { id: 'wall', x: 8, y: 0, width: 3, height: 3 },
+      { id: 'b', x: 14, y: 0, width: 5, height: 3 },
+    ];
+    const map = buildObstacleMap(20, 3, boxes, 'a', 'b');
+    assert.equal(findRoute(map, new Canvas(20, 3), { x: 5, y: 1 }, 'right', { x: 13, y: 1 }, 'left'), null);
+  });
+});
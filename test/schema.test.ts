@@ -88,6 +88,19 @@ describe('DiagramSchema', () => {
     });
   });
 
+  it('accepts named, palette and hex colours on nodes and connections', () => {
+    const result = DiagramSchema.parse({
+      children: [{ id: 'a', color: 'red', borderColor: 208, textColor: '#0f0', background: 'bright-black' }],
+      connections: [{ from: 'a', to: 'a', color: '#336699' }],
+    });
+    assert.equal(result.connections![0].color, '#336699');
+  });
+
+  it('rejects unknown colours', () => {
+    assert.throws(() => DiagramSchema.parse({ color: 'purple' }));
+    assert.throws(() => ConnectionSchema.parse({ from: 'a', to: 'b', background: 300 }));
+  });
+
   it('rejects invalid connection (missing from)', () => {
     assert.throws(() => {
       ConnectionSchema.parse({ to: 'b' });
@@ -0,0 +1,95 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SourceSyntaxError, codeFrame, locate, parseJsonSource, parseYamlSource } from '../src/source-map.js';
+
+const YAML = `# A pipeline
+children:
+  - id: build
+    children: [Build, "step 1"]
+  - id: deploy
+    border: wavy
+    title:
+connections:
+  - { from: build, to: deploy }
+  - from: build
+    to: test
+`;
+
+describe('parseJsonSource', () => {
+  it('parses what JSON.parse does', () => {
+    for (const text of ['{"a": [1, -2.5e3, true, null, "x\\ny\\u00e9"]}', '[]', '{}', ' "s" ', '0']) {
+      assert.deepEqual(parseJsonSource(text).value, JSON.parse(text));
+    }
+  });
+
+  it('maps paths to where their values and keys were written', () => {
+    const { map } = parseJsonSource('{\n  "children": [\n    {"id": "a", "border": "wavy"}\n  ]\n}');
+    assert.deepEqual(locate(map, ['children', 0, 'border']), { line: 3, column: 27 });
+    assert.deepEqual(locate(map, ['children', 0]), { line: 3, column: 5 });
+    assert.deepEqual(map.entries?.get('children')?.entries?.get(0)?.keys?.get('border'), { line: 3, column: 17 });
+  });
+
+  it('falls back to the nearest value for missing paths', () => {
+    const { map } = parseJsonSource('{\n  "connections": [{"from": "a"}]\n}');
+    assert.deepEqual(locate(map, ['connections', 0, 'to']), { line: 2, column: 19 });
+  });
+
+  it('reports syntax errors with their position', () => {
+    const cases: Array<[string, string, number, number]> = [
+      ['{\n  "children": [,]\n}', 'Unexpected ","', 2, 16],
+      ['{"a": 1,}', 'Unexpected "}"', 1, 9],
+      ['"abc', 'Unterminated string', 1, 1],
+      ['{"a": 1} x', 'Unexpected "x"', 1, 10],
+      ['', 'Unexpected end of input', 1, 1],
+    ];
+    for (const [text, message, line, column] of cases) {
+      assert.throws(() => parseJsonSource(text), (err: SourceSyntaxError) =>
+        err instanceof SourceSyntaxError && err.message === message && err.line === line && err.column === column);
+    }
+  });
+});
+
+describe('parseYamlSource', () => {
+  it('parses what js-yaml does', () => {
+    const { value } = parseYamlSource(YAML);
+    assert.deepEqual((value as { connections: unknown[] }).connections, [{ from: 'build', to: 'deploy' }, { from: 'build', to: 'test' }]);
+  });
+
+  it('maps block and flow values to where they were written', () => {
+    const { map } = parseYamlSource(YAML);
+    assert.deepEqual(locate(map, ['children']), { line: 3, column: 3 });
+    assert.deepEqual(locate(map, ['children', 0, 'children', 1]), { line: 4, column: 23 });
+    assert.deepEqual(locate(map, ['children', 1, 'border']), { line: 6, column: 13 });
+    assert.deepEqual(locate(map, ['connections', 0, 'to']), { line: 9, column: 24 });
+    assert.deepEqual(locate(map, ['connections', 1, 'to']), { line: 11, column: 9 });
+    assert.deepEqual(map.entries?.get('children')?.entries?.get(1)?.keys?.get('border'), { line: 6, column: 5 });
+  });
+
+  it('keeps an empty value on its key\'s line', () => {
+    assert.equal(locate(parseYamlSource(YAML).map, ['children', 1, 'title']).line, 7);
+  });
+
+  it('reports syntax errors with their position', () => {
+    assert.throws(() => parseYamlSource('children:\n  - [a, b\n'), (err: SourceSyntaxError) =>
+      err instanceof SourceSyntaxError && err.line === 3);
+  });
+});
+
+describe('codeFrame', () => {
+  it('shows the line before and a caret under the column', () => {
+    assert.equal(codeFrame(YAML, { line: 6, column: 13 }), [
+      '  5 |   - id: deploy',
+      '> 6 |     border: wavy',
+      '    |             ^',
+    ].join('\n'));
+  });
+
+  it('widens the gutter for the line number and keeps tabs and wide characters aligned', () => {
+    const text = Array.from({ length: 9 }, () => '').join('\n') + '\n\t"名前": x';
+    assert.equal(codeFrame(text, { line: 10, column: 8 }), [
+      '   9 |',
+      '> 10 | \t"名前": x',
+      '     | \t        ^',
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyStyles, classNames } from '../src/styles.js';
+import { render } from '../src/render.js';
+import { DiagramSchema } from '../src/schema.js';
+import type { NodeDef } from '../src/schema.js';
+
+describe('applyStyles', () => {
+  const diagram: NodeDef = {
+    styles: {
+      database: { border: 'double', shadow: true, style: 'dashed' },
+      hot: { color: 'red', border: 'bold' },
+      link: { style: 'dotted', head: 'diamond' },
+    },
+    children: [
+      { id: 'a', children: ['App'], classes: ['hot'] },
+      { id: 'b', children: [{ id: 'db', children: ['Orders'], classes: ['database', 'hot'] }] },
+      { id: 'c', children: ['Cache'], classes: ['database'], border: 'rounded' },
+    ],
+    connections: [{ from: 'a', to: 'db', classes: ['link', 'database'] }],
+  };
+
+  it('puts class rules onto boxes, nested ones included', () => {
+    const [a, b, c] = applyStyles(diagram).children as NodeDef[];
+    assert.equal(a.border, 'bold');
+    assert.equal(a.color, 'red');
+    const [db] = b.children as NodeDef[];
+    assert.equal(db.border, 'bold', 'later classes win');
+    assert.equal(db.shadow, true);
+    assert.equal(db.color, 'red');
+    assert.equal(c.border, 'rounded', 'the box\'s own properties win');
+    assert.equal(c.shadow, true);
+    assert.equal((c as Record<string, unknown>).style, undefined, 'connection properties stay off boxes');
+  });
+
+  it('puts class rules onto connections', () => {
+    const [conn] = applyStyles(diagram).connections!;
+    assert.equal(conn.style, 'dashed');
+    assert.equal(conn.head, 'diamond');
+    assert.equal((conn as Record<string, unknown>).shadow, undefined);
+  });
+
+  it('leaves the input alone and diagrams without styles as they are', () => {
+    applyStyles(diagram);
+    assert.equal((diagram.children as NodeDef[])[0].border, undefined);
+    const plain: NodeDef = { children: [{ id: 'a', classes: ['x'] }] };
+    assert.equal(applyStyles(plain), plain);
+  });
+
+  it('matches the words of class as well', () => {
+    assert.deepEqual(classNames({ class: ' a  b', classes: ['c'] }), ['a', 'b', 'c']);
+    const [box] = applyStyles({ styles: { hot: { color: 'red' } }, children: [{ class: 'x hot' }] }).children as NodeDef[];
+    assert.equal(box.color, 'red');
+  });
+
+  it('lets classes win over the words of class, naming each class once', () => {
+    assert.deepEqual(classNames({ class: 'a b', classes: ['b', 'c'] }), ['a', 'b', 'c']);
+    const styles = { cold: { color: 'blue' }, hot: { color: 'red' } };
+    const [box, conn] = [
+      ...applyStyles({ styles, children: [{ id: 'a', class: 'hot', classes: ['cold'] }] }).children as NodeDef[],
+      ...applyStyles({ styles, connections: [{ from: 'a', to: 'b', class: 'cold', classes: ['hot'] }] }).connections!,
+    ];
+    assert.equal(box.color, 'blue');
+    assert.equal(conn.color, 'red');
+  });
+
+  it('is applied before layout and drawing', () => {
+    const out = render({ styles: { big: { border: 'double', padding: 2 } }, children: [{ id: 'a', children: ['Hi'], classes: ['big'] }] });
+    assert.ok(out.includes('╔'));
+    assert.equal(out.split('\n').filter(line => line.includes('║')).length, 5);
+  });
+
+  it('rejects unknown rule properties', () => {
+    assert.ok(!DiagramSchema.safeParse({ styles: { x: { colour: 'red' } } }).success);
+    assert.ok(!DiagramSchema.safeParse({ styles: { x: { border: 'wiggly' } } }).success);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { graphemes, graphemeWidth, displayWidth, sliceToWidth } from '../src/text-width.js';
+
+describe('graphemes', () => {
+  it('keeps surrogate pairs, combining marks and emoji sequences together', () => {
+    assert.deepEqual(graphemes('a𝒳é'), ['a', '𝒳', 'é']);
+    assert.deepEqual(graphemes('👨‍👩‍👧🇯🇵'), ['👨‍👩‍👧', '🇯🇵']);
+  });
+});
+
+describe('graphemeWidth', () => {
+  it('gives CJK, Hangul and fullwidth forms two columns', () => {
+    assert.equal(graphemeWidth('日'), 2);
+    assert.equal(graphemeWidth('한'), 2);
+    assert.equal(graphemeWidth('Ａ'), 2);
+  });
+
+  it('gives emoji two columns', () => {
+    assert.equal(graphemeWidth('🚀'), 2);
+    assert.equal(graphemeWidth('❤️'), 2);
+    assert.equal(graphemeWidth('🇯🇵'), 2);
+  });
+
+  it('gives Latin letters, accents and box drawing one column', () => {
+    assert.equal(graphemeWidth('a'), 1);
+    assert.equal(graphemeWidth('é'), 1);
+    assert.equal(graphemeWidth('─'), 1);
+  });
+
+  it('gives zero-width characters no columns', () => {
+    assert.equal(graphemeWidth('​'), 0);
+  });
+});
+
+describe('displayWidth', () => {
+  it('sums the widths of the clusters', () => {
+    assert.equal(displayWidth('hello'), 5);
+    assert.equal(displayWidth('日本語 ok'), 9);
+  });
+});
+
+describe('sliceToWidth', () => {
+  it('never splits a wide character', () => {
+    assert.equal(sliceToWidth('日本語', 5), '日本');
+    assert.equal(sliceToWidth('ab🚀', 3), 'ab');
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { render } from '../src/render.js';
+import { renderVectorSvg } from '../src/vector-svg.js';
+import { renderHtml } from '../src/html.js';
+import { DiagramSchema, ThemeSchema } from '../src/schema.js';
+import { DEFAULT_HTML_OPTIONS } from '../src/constants.js';
+import type { NodeDef } from '../src/schema.js';
+import { validate } from '../src/validate.js';
+import { borderStyleNames, isBorderStyle, registerBorderStyle, registerTheme, resolveTheme } from '../src/themes.js';
+
+const pair = (border?: string): NodeDef => ({
+  children: [
+    { id: 'a', children: ['A'], ...(border && { border }), shadow: true },
+    { id: 'b', children: ['B'] },
+  ],
+  connections: [{ from: 'a', to: 'b' }],
+});
+
+describe('registerBorderStyle', () => {
+  it('adds a border style boxes can use', () => {
+    registerBorderStyle('mixed', { tl: '╒', tr: '╕', bl: '╘', br: '╛', h: '═', v: '│' });
+    assert.ok(isBorderStyle('mixed'));
+    const lines = render(pair('mixed')).split('\n');
+    assert.ok(lines.some(line => line.startsWith('╒═')));
+    assert.ok(lines.some(line => line.startsWith('╘═')));
+  });
+
+  it('draws per-side overrides', () => {
+    registerBorderStyle('heavy-top', { tl: '┍', tr: '┑', bl: '└', br: '┘', h: '─', v: '│', top: '━' });
+    const lines = render(pair('heavy-top')).split('\n');
+    assert.ok(lines.some(line => line.startsWith('┍━━')));
+    assert.ok(lines.some(line => line.startsWith('└──')));
+  });
+
+  it('refuses to redefine a built-in style', () => {
+    assert.throws(() => registerBorderStyle('single', { tl: '+', tr: '+', bl: '+', br: '+', h: '-', v: '|' }), /built in/);
+  });
+
+  it('is what the schema accepts as a border', () => {
+    assert.ok(DiagramSchema.safeParse({ children: [{ border: 'rounded' }] }).success);
+    assert.ok(!DiagramSchema.safeParse({ children: [{ border: 'wavy' }] }).success);
+    registerBorderStyle('wavy', { tl: '~', tr: '~', bl: '~', br: '~', h: '~', v: '|' });
+    assert.ok(DiagramSchema.safeParse({ children: [{ border: 'wavy' }] }).success);
+  });
+
+  it('lists the names a border can use, built in first', () => {
+    registerBorderStyle('listed', { tl: '+', tr: '+', bl: '+', br: '+', h: '-', v: '|' });
+    registerTheme('blocky', { borders: { block: { tl: '█', tr: '█', bl: '█', br: '█', h: '█', v: '█' } } });
+    const names = borderStyleNames();
+    assert.deepEqual(names.slice(0, 5), ['single', 'double', 'bold', 'rounded', 'dashed']);
+    assert.ok(names.includes('listed') && names.includes('block'));
+    const result = DiagramSchema.safeParse({ children: [{ border: 'zigzag' }] });
+    assert.ok(!result.success && result.error.issues[0].message.startsWith(`Expected one of ${names.join(', ')}`));
+  });
+});
+
+describe('themes', () => {
+  it('restyles borders, arrowheads and shadows', () => {
+    const out = render(pair(), {
+      theme: {
+        borders: { single: { tl: '┏', tr: '┓', bl: '┗', br: '┛', h: '━', v: '┃' } },
+        arrowHeads: { left: '➤' },
+        shadow: '▒',
+      },
+    });
+    assert.ok(out.includes('┏━'));
+    assert.ok(!out.includes('┌'));
+    assert.ok(out.includes('─➤'));
+    assert.ok(out.includes('▒') && !out.includes('░'));
+  });
+
+  it('accepts border styles defined only by an inline theme', () => {
+    const theme = { borders: { house: { tl: '╒', tr: '╕', bl: '╘', br: '╛', h: '═', v: '│' } } };
+    const diagram: NodeDef = { children: [{ id: 'a', border: 'house', children: 'hi' }] };
+    assert.ok(render(diagram, { theme }).includes('╒══'));
+    assert.deepEqual(validate(diagram, { theme }), []);
+    assert.ok(!isBorderStyle('house'));
+    assert.throws(() => render(diagram), /Expected one of/);
+  });
+
+  it('swaps junction glyphs on connection lines only', () => {
+    const out = render(pair(), { theme: { junctions: { '─': '~' } } });
+    assert.ok(out.includes('~▶'));
+    assert.ok(out.includes('┌─'));
+  });
+
+  it('is looked up by name once registered', () => {
+    registerTheme('test-shadows', { shadow: '▓', borders: { cloud: { tl: '(', tr: ')', bl: '(', br: ')', h: '~', v: ' ' } } });
+    assert.ok(render(pair(), { theme: 'test-shadows' }).includes('▓'));
+    assert.ok(isBorderStyle('cloud'));
+    assert.ok(render(pair('cloud'), { theme: 'test-shadows' }).startsWith('\n(~'));
+    assert.throws(() => resolveTheme('nope'), /Unknown theme "nope"/);
+  });
+
+  it('sets the default SVG and HTML colours', () => {
+    const theme = { svg: { lightBg: '#fdf6e3', darkFg: '#93a1a1' } };
+    const svg = renderVectorSvg(pair(), undefined, { theme });
+    assert.ok(svg.includes('fill="#fdf6e3"'));
+    assert.ok(svg.includes('#93a1a1'));
+    assert.ok(renderVectorSvg(pair(), { lightBg: 'white' }, { theme }).includes('fill="white"'));
+    const html = renderHtml(pair(), undefined, { theme });
+    assert.ok(html.includes('background: #fdf6e3'));
+    assert.ok(html.includes(`font-family: ${DEFAULT_HTML_OPTIONS.fontFamily}`));
+  });
+
+  it('validates themes loaded from JSON', () => {
+    assert.ok(ThemeSchema.safeParse({ shadow: '▒', arrowHeads: { left: '>' } }).success);
+    assert.ok(!ThemeSchema.safeParse({ shadow: '' }).success);
+    assert.ok(!ThemeSchema.safeParse({ borders: { x: { tl: '+' } } }).success);
+    assert.ok(!ThemeSchema.safeParse({ colour: 'red' }).success);
+  });
+});
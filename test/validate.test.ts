@@ -0,0 +1,130 @@
+import { describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { DiagramError, formatDiagnostic, formatPath, validate } from '../src/validate.js';
+import { render } from '../src/render.js';
+import type { NodeDef } from '../src/schema.js';
+
+const codes = (diagram: unknown) => validate(diagram).map(d => d.code);
+
+describe('validate', () => {
+  it('finds nothing wrong with a sound diagram', () => {
+    assert.deepEqual(validate({
+      children: [{ id: 'a', children: ['A'] }, { id: 'b', children: [{ id: 'c', children: ['C'] }] }],
+      connections: [{ from: 'a', to: 'c' }],
+    }), []);
+  });
+
+  it('reports schema errors by path', () => {
+    assert.deepEqual(validate({ children: [{ id: 'a', shadow: 'yes' }] }), [{
+      code: 'invalid-schema',
+      severity: 'error',
+      path: ['children', 0, 'shadow'],
+      message: 'shadow must be a boolean, not a string',
+    }]);
+  });
+
+  it('phrases schema errors as sentences about the value', () => {
+    const messages = (diagram: unknown) => validate(diagram).map(d => d.message);
+    assert.deepEqual(messages({ children: [{ id: 'a', border: 'wavy', align: 'middle', padding: -1 }] }), [
+      'border must be one of single, double, bold, rounded, dashed',
+      'align must be one of left, center, right, not "middle"',
+      'padding must be at least 0',
+    ]);
+    assert.deepEqual(messages({ children: [{ id: 'a' }], connections: [{ from: 'a' }] }), ['to is required']);
+    assert.deepEqual(messages({ children: ['a', 3] }), ['children[1] must be a string, not a number']);
+    assert.deepEqual(messages({ styles: { hot: { colour: 'red' } } }), ['hot has unknown property "colour"']);
+    assert.deepEqual(messages({ children: [{ color: 'reddish' }] }), ['color must be a colour name or a #rgb/#rrggbb hex colour']);
+    assert.deepEqual(messages(null), ['The diagram must be an object, not null']);
+  });
+
+  it('reports connections to unknown ids, suggesting near misses', () => {
+    const diagnostics = validate({
+      children: [{ id: 'api', children: ['API'] }, { id: 'g', children: [{ id: 'db', children: ['DB'] }], connections: [{ from: 'db', to: 'cache' }] }],
+      connections: [{ from: 'apii', to: 'db' }],
+    });
+    assert.deepEqual(diagnostics.map(d => [d.code, d.severity, d.path]), [
+      ['unknown-endpoint', 'error', ['connections', 0, 'from']],
+      ['unknown-endpoint', 'error', ['children', 1, 'connections', 0, 'to']],
+    ]);
+    assert.match(diagnostics[0].message, /No box has id "apii".*did you mean "api"\?/);
+    assert.ok(!diagnostics[1].message.includes('did you mean'));
+  });
+
+  it('reports duplicate ids anywhere in the tree', () => {
+    const diagnostics = validate({ children: [{ id: 'a' }, { id: 'p', children: [{ id: 'a' }] }] });
+    assert.deepEqual(diagnostics.map(d => [d.code, d.path]), [['duplicate-id', ['children', 1, 'children', 0, 'id']]]);
+    assert.match(diagnostics[0].message, /already used by the box at \$\.children\[0\]/);
+  });
+
+  it('reports explicitly placed siblings that overlap', () => {
+    const diagnostics = validate({
+      children: [
+        { id: 'a', x: 0, y: 0, width: 10, height: 3 },
+        { id: 'b', x: 10, y: 0, width: 10, height: 3 },
+        { id: 'c', x: 5, y: 2, width: 10, height: 3 },
+      ],
+    });
+    assert.deepEqual(diagnostics.map(d => [d.code, d.severity, d.path]), [
+      ['overlapping-boxes', 'warning', ['children', 2]],
+      ['overlapping-boxes', 'warning', ['children', 2]],
+    ]);
+    assert.equal(diagnostics[0].message, 'Box "c" overlaps box "a"');
+  });
+
+  it('reports text cut short to fit its box', () => {
+    assert.deepEqual(codes({ children: [{ id: 'a', children: ['one', 'two', 'three'], height: 4 }] }), ['truncated-text']);
+    assert.deepEqual(codes({ children: [{ id: 'a', children: ['wraps fine'], width: 8 }] }), []);
+    assert.deepEqual(codes({ children: [{ id: 'a', title: 'A long title', children: ['x'], width: 8, height: 3 }] }), ['truncated-text']);
+  });
+
+  it('reports children that overflow an explicitly sized parent', () => {
+    const diagnostics = validate({
+      children: [{ id: 'p', width: 12, height: 6, children: [{ id: 'c', children: ['child'], x: 1, y: 0, width: 12, height: 3 }] }],
+    });
+    assert.deepEqual(diagnostics.map(d => [d.code, d.path]), [['child-overflow', ['children', 0, 'children', 0]]]);
+    assert.equal(diagnostics[0].message, 'Box "c" doesn\'t fit inside box "p", which is 12×6');
+    assert.deepEqual(codes({ width: 10, height: 5, children: [{ id: 'a', x: 4, y: 0, width: 8, height: 3 }] }), ['child-overflow']);
+  });
+
+  it('checks boxes as their classes style them', () => {
+    const diagram: NodeDef = { styles: { roomy: { padding: 3 } }, children: [{ id: 'a', children: ['x'], classes: ['roomy'], width: 8, height: 5 }] };
+    assert.deepEqual(codes(diagram), ['truncated-text']);
+  });
+
+  it('formats paths and diagnostics', () => {
+    assert.equal(formatPath([]), '$');
+    assert.equal(formatPath(['children', 0, 'connections', 1, 'to']), '$.children[0].connections[1].to');
+    assert.equal(
+      formatDiagnostic({ code: 'duplicate-id', severity: 'error', path: ['children', 1, 'id'], message: 'Oops' }),
+      '$.children[1].id: error: Oops [duplicate-id]',
+    );
+  });
+});
+
+describe('render with validate', () => {
+  const typo: NodeDef = { children: [{ id: 'a', children: ['A'] }, { id: 'b', children: ['B'] }], connections: [{ from: 'a', to: 'bb' }] };
+
+  it('throws a DiagramError listing the diagnostics', () => {
+    assert.throws(() => render(typo, { validate: 'error' }), (err: unknown) => {
+      assert.ok(err instanceof DiagramError);
+      assert.deepEqual(err.diagnostics.map(d => d.code), ['unknown-endpoint']);
+      assert.match(err.message, /^\$\.connections\[0\]\.to: error: No box has id "bb"/);
+      return true;
+    });
+  });
+
+  it('warns and still renders', () => {
+    const warn = mock.method(console, 'warn', () => {});
+    try {
+      assert.equal(render(typo, { validate: 'warn' }), render(typo));
+      assert.equal(warn.mock.callCount(), 1);
+      assert.match(String(warn.mock.calls[0].arguments[0]), /unknown-endpoint/);
+    } finally {
+      warn.mock.restore();
+    }
+  });
+
+  it('stays quiet by default', () => {
+    assert.doesNotThrow(() => render(typo));
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { renderVectorSvg } from '../src/vector-svg.js';
+import type { NodeDef } from '../src/schema.js';
+
+// One grid cell is 10×10 pixels, with no padding around the image
+const GRID = { charWidth: 10, lineHeight: 10, padding: 0 };
+
+const diagram: NodeDef = {
+  width: 30,
+  height: 4,
+  children: [
+    { id: 'a', x: 0, y: 0, width: 8, height: 3, children: ['A'] },
+    { id: 'b', x: 15, y: 0, width: 8, height: 3, border: 'rounded', title: 'T', children: ['B'] },
+  ],
+  connections: [{ from: 'a', to: 'b', label: 'go' }],
+};
+
+describe('renderVectorSvg', () => {
+  it('draws boxes as rects through the centres of their border cells', () => {
+    const svg = renderVectorSvg(diagram, GRID);
+    assert.ok(svg.includes('<rect class="box" x="5" y="5" width="70" height="20" />'));
+    assert.ok(svg.includes('<rect class="box" x="155" y="5" width="70" height="20" rx="10" />'));
+  });
+
+  it('draws connections as paths from border to border with markers', () => {
+    const svg = renderVectorSvg(diagram, GRID);
+    assert.ok(svg.includes('<path class="line" d="M75,15 L155,15" marker-end="url(#marker-triangle)" />'));
+    assert.ok(svg.includes('<marker id="marker-triangle"'));
+  });
+
+  it('places text on the grid where the text output has it', () => {
+    const svg = renderVectorSvg(diagram, GRID);
+    assert.ok(svg.includes('<text x="30" y="15" textLength="10" lengthAdjust="spacingAndGlyphs" xml:space="preserve">A</text>'));
+    // Title and label sit on strokes, so a background patch goes behind them
+    assert.ok(svg.includes('<rect class="mask" x="180" y="0" width="30" height="10" />'));
+    assert.ok(svg.includes('<rect class="mask" x="90" y="10" width="40" height="10" />'));
+    assert.ok(svg.includes('>go</text>'));
+  });
+
+  it('turns corners where the routed path does', () => {
+    const svg = renderVectorSvg({
+      width: 20,
+      height: 10,
+      children: [
+        { id: 'a', x: 0, y: 0, width: 6, height: 3, children: ['A'] },
+        { id: 'b', x: 12, y: 5, width: 6, height: 3, children: ['B'] },
+      ],
+      connections: [{ from: 'a', to: 'b', fromSide: 'right', toSide: 'left', arrow: 'none' }],
+    }, GRID);
+    const d = svg.match(/<path class="line" d="([^"]+)"/)![1];
+    assert.equal(d.split(' ').length, 4);
+    assert.ok(d.startsWith('M55,15 '));
+    assert.ok(d.endsWith(' L125,65'));
+    assert.ok(!svg.includes('<marker'));
+  });
+
+  it('follows border and line styles', () => {
+    const svg = renderVectorSvg({
+      children: [
+        { id: 'a', children: ['A'], border: 'dashed' },
+        { id: 'b', children: ['B'], border: 'double' },
+        { id: 'c', children: ['C'], border: 'bold', shadow: true },
+      ],
+      connections: [
+        { from: 'a', to: 'b', style: 'dotted', arrow: 'both', tail: 'circle' },
+        { from: 'b', to: 'c', style: 'double', head: 'diamond' },
+      ],
+    }, GRID);
+    assert.ok(svg.includes('stroke-dasharray="4 3"'));
+    assert.equal(svg.match(/<rect class="box"/g)!.length, 4);
+    assert.ok(svg.includes('stroke-width="2"'));
+    assert.ok(svg.includes('<rect class="shadow"'));
+    assert.ok(svg.includes('stroke-dasharray="1.5 2.5" marker-start="url(#marker-circle)" marker-end="url(#marker-triangle)"'));
+    assert.ok(svg.includes('stroke-width="3" marker-end="url(#marker-diamond)"'));
+    assert.ok(svg.includes('<path class="gap"'));
+  });
+
+  it('keeps light and dark theming', () => {
+    const svg = renderVectorSvg(diagram, { lightFg: '#111111', darkFg: '#eeeeee' });
+    assert.ok(svg.includes('stroke: #111111'));
+    assert.ok(svg.includes('@media (prefers-color-scheme: dark)'));
+    assert.ok(svg.includes('stroke: #eeeeee'));
+  });
+
+  it('groups each box and connection with its text', () => {
+    const svg = renderVectorSvg({
+      ...diagram,
+      children: [{ ...diagram.children![0] as NodeDef, class: 'svc', href: '/a' }, diagram.children![1]],
+    }, GRID);
+    assert.match(svg, /<g data-id="a" class="node svc">\n\s+<a href="\/a">\n\s+<rect class="box"[^\n]+\n\s+<text[^\n]+>A<\/text>\n\s+<\/a>\n\s+<\/g>/);
+    assert.match(svg, /<g data-id="a-&gt;b" data-from="a" data-to="b" class="connection">\n\s+<path class="line"[^\n]+\n\s+<rect class="mask"[^\n]+\n\s+<text[^\n]+>go<\/text>/);
+  });
+
+  it('renders cell attributes as text styles', () => {
+    const svg = renderVectorSvg({ children: [{ id: 'a', title: 'Off', disabled: true, children: ['x'] }] }, GRID);
+    assert.ok(svg.includes('style="text-decoration: line-through" xml:space="preserve">Off</text>'));
+    assert.ok(svg.includes('<rect class="shade"'));
+  });
+});
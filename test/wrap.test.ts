@@ -0,0 +1,46 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { wrapText, wrapLines, wrapTitle, ellipsize } from '../src/wrap.js';
+
+describe('wrapText', () => {
+  it('leaves text that fits alone', () => {
+    assert.deepEqual(wrapText('Hello world', 11), ['Hello world']);
+  });
+
+  it('breaks between words', () => {
+    assert.deepEqual(wrapText('the quick brown fox jumps', 10), ['the quick', 'brown fox', 'jumps']);
+  });
+
+  it('hyphenates words longer than a line', () => {
+    assert.deepEqual(wrapText('see abcdefghijkl', 6), ['see', 'abcde-', 'fghij-', 'kl']);
+  });
+
+  it('measures and breaks wide text by columns, without hyphens', () => {
+    assert.deepEqual(wrapText('データベース', 6), ['データ', 'ベース']);
+    assert.deepEqual(wrapText('日本 語', 4), ['日本', '語']);
+  });
+
+  it('falls back to an ellipsis when there is no room for a hyphen', () => {
+    assert.deepEqual(wrapText('abcdef', 2), ['a…']);
+  });
+});
+
+describe('wrapLines', () => {
+  it('wraps each line on its own', () => {
+    assert.deepEqual(wrapLines(['one two', 'three'], 4), ['one', 'two', 'three'.slice(0, 3) + '-', 'ee']);
+  });
+});
+
+describe('wrapTitle', () => {
+  it('leaves room for the border and padding around the first line', () => {
+    assert.deepEqual(wrapTitle('Edge collectors', 16), ['Edge', 'collectors']);
+  });
+});
+
+describe('ellipsize', () => {
+  it('ends cut text in an ellipsis', () => {
+    assert.equal(ellipsize('abcdef', 4), 'abc…');
+    assert.equal(ellipsize('abc', 4), 'abc');
+    assert.equal(ellipsize('日本語', 4), '日…');
+  });
+});